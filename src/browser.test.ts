@@ -0,0 +1,78 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import {
+  BROWSER_PATH_ENV_VAR,
+  BrowserNotFoundError,
+  findBrowser,
+} from "./browser.ts";
+
+describe("#findBrowser", () => {
+  const existing =
+    (...paths: string[]) =>
+    (p: string) =>
+      paths.includes(p);
+
+  it("prefers --browser-path over the environment and config", () => {
+    const { executablePath } = findBrowser({
+      browserPath: "/opt/chrome",
+      env: { [BROWSER_PATH_ENV_VAR]: "/env/chrome" },
+      config: { browserPath: "/config/chrome" },
+      exists: existing("/opt/chrome", "/env/chrome", "/config/chrome"),
+    });
+    assert.equal(executablePath, "/opt/chrome");
+  });
+
+  it("uses the environment variable before config.json", () => {
+    const { executablePath } = findBrowser({
+      env: { [BROWSER_PATH_ENV_VAR]: "/env/chrome" },
+      config: { browserPath: "/config/chrome" },
+      exists: existing("/env/chrome", "/config/chrome"),
+    });
+    assert.equal(executablePath, "/env/chrome");
+  });
+
+  it("uses config.json", () => {
+    const { executablePath } = findBrowser({
+      env: {},
+      config: { browserPath: "/config/chrome" },
+      exists: existing("/config/chrome"),
+    });
+    assert.equal(executablePath, "/config/chrome");
+  });
+
+  it("throws when a configured path does not exist", () => {
+    assert.throws(
+      () =>
+        findBrowser({
+          env: { [BROWSER_PATH_ENV_VAR]: "/env/chrome" },
+          exists: existing(),
+        }),
+      (err) =>
+        err instanceof BrowserNotFoundError &&
+        /\/env\/chrome \(from AMAZON_ORDER_SCRAPER_BROWSER\)/.test(err.message),
+    );
+  });
+
+  it("finds Chrome installed in a well-known location", () => {
+    const { executablePath } = findBrowser({
+      env: {},
+      platform: "linux",
+      exists: existing("/usr/bin/chromium"),
+    });
+    assert.equal(executablePath, "/usr/bin/chromium");
+  });
+
+  it("falls back to the bundled Chromium", () => {
+    const { executablePath, searched } = findBrowser({
+      env: {},
+      platform: "linux",
+      exists: existing(),
+    });
+    assert.equal(executablePath, undefined);
+    assert.ok(searched.includes("/usr/bin/google-chrome"));
+    assert.equal(
+      searched[searched.length - 1],
+      "Playwright's bundled Chromium",
+    );
+  });
+});
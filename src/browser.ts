@@ -0,0 +1,165 @@
+import fs from "node:fs";
+import { chromium } from "playwright-extra";
+import type { Config } from "./config.ts";
+
+export type BrowserContext = Awaited<
+  ReturnType<typeof chromium.launchPersistentContext>
+>;
+
+export const BROWSER_PATH_ENV_VAR = "AMAZON_ORDER_SCRAPER_BROWSER";
+
+/**
+ * Where we look for Chrome or Chromium when no path has been configured.
+ */
+const KNOWN_BROWSER_PATHS: Partial<Record<NodeJS.Platform, string[]>> = {
+  darwin: [
+    "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+    "/Applications/Chromium.app/Contents/MacOS/Chromium",
+  ],
+  linux: [
+    "/usr/bin/google-chrome",
+    "/usr/bin/google-chrome-stable",
+    "/usr/bin/chromium",
+    "/usr/bin/chromium-browser",
+  ],
+  win32: [
+    "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
+    "C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe",
+  ],
+};
+
+export type FindBrowserOptions = {
+  /**
+   * Path given on the command line with --browser-path.
+   */
+  browserPath?: string;
+  config?: Config;
+  env?: NodeJS.ProcessEnv;
+  platform?: NodeJS.Platform;
+  exists?: (path: string) => boolean;
+};
+
+export type FoundBrowser = {
+  /**
+   * The executable to launch. `undefined` means Playwright's bundled
+   * Chromium.
+   */
+  executablePath: string | undefined;
+
+  /**
+   * Human-readable descriptions of every place we looked, in order.
+   */
+  searched: string[];
+};
+
+export class BrowserNotFoundError extends Error {
+  #searched: string[];
+
+  constructor(message: string, searched: string[]) {
+    super(`${message}\n\nLooked in:\n${formatSearched(searched)}`);
+    this.#searched = searched;
+    this.name = this.constructor.name;
+  }
+
+  get searched() {
+    return this.#searched;
+  }
+}
+
+export class BrowserLaunchError extends Error {
+  #searched: string[];
+
+  constructor(
+    executablePath: string | undefined,
+    searched: string[],
+    cause: Error,
+  ) {
+    const browser = executablePath ?? "Playwright's bundled Chromium";
+    super(
+      [
+        // Playwright's messages include the full launch log after the first line
+        `Failed to launch ${browser}: ${cause.message.split("\n")[0]}`,
+        `Looked in:\n${formatSearched(searched)}`,
+        `Use --browser-path, set ${BROWSER_PATH_ENV_VAR}, or set "browserPath" in config.json to choose a browser. To use the bundled Chromium, run \`npx playwright install chromium\`.`,
+      ].join("\n\n"),
+      { cause },
+    );
+    this.#searched = searched;
+    this.name = this.constructor.name;
+  }
+
+  get searched() {
+    return this.#searched;
+  }
+}
+
+/**
+ * Works out which browser executable to use. In order of preference:
+ * --browser-path, the AMAZON_ORDER_SCRAPER_BROWSER environment variable,
+ * `browserPath` in config.json, a browser installed in a well-known location,
+ * and finally Playwright's bundled Chromium.
+ */
+export function findBrowser({
+  browserPath,
+  config = {},
+  env = process.env,
+  platform = process.platform,
+  exists = fs.existsSync,
+}: FindBrowserOptions = {}): FoundBrowser {
+  const searched: string[] = [];
+
+  const configured: [string, string | undefined][] = [
+    ["--browser-path", browserPath],
+    [BROWSER_PATH_ENV_VAR, env[BROWSER_PATH_ENV_VAR]],
+    ["config.json browserPath", config.browserPath],
+  ];
+
+  for (const [source, candidate] of configured) {
+    if (candidate == null || candidate === "") {
+      continue;
+    }
+
+    searched.push(`${candidate} (from ${source})`);
+
+    // A path the user asked for explicitly should never be silently ignored
+    if (!exists(candidate)) {
+      throw new BrowserNotFoundError(
+        `Browser executable not found: ${candidate}`,
+        searched,
+      );
+    }
+
+    return { executablePath: candidate, searched };
+  }
+
+  for (const candidate of KNOWN_BROWSER_PATHS[platform] ?? []) {
+    searched.push(candidate);
+    if (exists(candidate)) {
+      return { executablePath: candidate, searched };
+    }
+  }
+
+  searched.push("Playwright's bundled Chromium");
+
+  return { executablePath: undefined, searched };
+}
+
+export async function launchBrowser(
+  profileDir: string,
+  { headless, ...options }: FindBrowserOptions & { headless: boolean },
+): Promise<BrowserContext> {
+  const { executablePath, searched } = findBrowser(options);
+
+  try {
+    return await chromium.launchPersistentContext(profileDir, {
+      headless,
+      executablePath,
+    });
+  } catch (err) {
+    throw new BrowserLaunchError(executablePath, searched, err);
+  }
+}
+
+function formatSearched(searched: string[]): string {
+  return searched.map((s) => `  - ${s}`).join("\n");
+}
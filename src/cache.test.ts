@@ -0,0 +1,111 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import {
+  createCacheKey,
+  getCachePageType,
+  getOrderListYear,
+  isInvoiceURL,
+  parseCacheKey,
+} from "./cache.ts";
+
+describe("#parseCacheKey", () => {
+  it("round-trips keys made by createCacheKey", () => {
+    const url = new URL(
+      "https://www.amazon.com/gp/css/summary/print.html?orderID=123-4567890-1234567",
+    );
+    const key = createCacheKey("default", url);
+
+    assert.deepStrictEqual(parseCacheKey(key), { user: "default", url });
+  });
+
+  it("returns undefined for keys in another format", () => {
+    assert.equal(parseCacheKey("something-else"), undefined);
+  });
+});
+
+describe("#isInvoiceURL", () => {
+  it("recognizes printable and digital order invoices", () => {
+    assert.equal(
+      isInvoiceURL(
+        new URL(
+          "https://www.amazon.com/gp/css/summary/print.html?orderID=123-4567890-1234567",
+        ),
+      ),
+      true,
+    );
+    assert.equal(
+      isInvoiceURL(
+        new URL(
+          "https://www.amazon.com/gp/digital/your-account/order-summary.html?orderID=D01-1234567-1234567",
+        ),
+      ),
+      true,
+    );
+  });
+
+  it("returns false for order list pages", () => {
+    assert.equal(
+      isInvoiceURL(
+        new URL(
+          "https://www.amazon.com/your-orders/orders?timeFilter=year-2024",
+        ),
+      ),
+      false,
+    );
+  });
+});
+
+describe("#getCachePageType", () => {
+  it("recognizes invoices, order lists and other pages", () => {
+    assert.equal(
+      getCachePageType(
+        new URL(
+          "https://www.amazon.com/gp/css/summary/print.html?orderID=123-4567890-1234567",
+        ),
+      ),
+      "invoice",
+    );
+    assert.equal(
+      getCachePageType(
+        new URL(
+          "https://www.amazon.ca/your-orders/orders?timeFilter=year-2023",
+        ),
+      ),
+      "orderList",
+    );
+    assert.equal(
+      getCachePageType(new URL("https://www.amazon.com/your-orders/orders")),
+      "other",
+    );
+  });
+});
+
+describe("#getOrderListYear", () => {
+  it("returns the year of regular and digital order lists", () => {
+    assert.equal(
+      getOrderListYear(
+        new URL(
+          "https://www.amazon.com/your-orders/orders?timeFilter=year-2023&startIndex=10",
+        ),
+      ),
+      2023,
+    );
+    assert.equal(
+      getOrderListYear(
+        new URL(
+          "https://www.amazon.com/gp/your-account/order-history?digitalOrders=1&unifiedOrders=0&orderFilter=year-2019",
+        ),
+      ),
+      2019,
+    );
+  });
+
+  it("returns undefined for other pages", () => {
+    assert.equal(
+      getOrderListYear(
+        new URL("https://www.amazon.com/your-orders/orders?timeFilter=last30"),
+      ),
+      undefined,
+    );
+  });
+});
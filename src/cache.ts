@@ -0,0 +1,91 @@
+import { DEFAULT_MARKETPLACE, getMarketplaceForURL } from "./marketplaces.ts";
+
+const CACHE_KEY_VERSION = "v1";
+
+/**
+ * The kinds of page we cache.
+ */
+export type CachePageType = "orderList" | "invoice" | "other";
+
+export const CACHE_PAGE_TYPES: CachePageType[] = [
+  "orderList",
+  "invoice",
+  "other",
+];
+
+/**
+ * The kinds of page read back from the cache when scraping online, which can
+ * expire on different schedules (see Config.cacheMaxAge). Other pages, like
+ * the list of years, are always fetched again.
+ */
+export type ExpiringCachePageType = Exclude<CachePageType, "other">;
+
+export const EXPIRING_CACHE_PAGE_TYPES: ExpiringCachePageType[] = [
+  "orderList",
+  "invoice",
+];
+
+export type ParsedCacheKey = {
+  user: string;
+  url: URL;
+};
+
+export function createCacheKey(user: string, url: URL): string {
+  return [CACHE_KEY_VERSION, "user", user, "url", url.toString()].join(":");
+}
+
+/**
+ * @returns The user and URL encoded in a key created by createCacheKey(), or
+ *          undefined if the key is not in that format.
+ */
+export function parseCacheKey(key: string): ParsedCacheKey | undefined {
+  const m = /^v1:user:(.+?):url:(.+)$/.exec(key);
+  if (!m || !URL.canParse(m[2])) {
+    return;
+  }
+
+  return { user: m[1], url: new URL(m[2]) };
+}
+
+export function isInvoiceURL(url: URL): boolean {
+  return (
+    url.toString().includes("print.html") ||
+    url.pathname.endsWith("/gp/digital/your-account/order-summary.html")
+  );
+}
+
+export function getCachePageType(url: URL): CachePageType {
+  if (isInvoiceURL(url)) {
+    return "invoice";
+  }
+
+  return getOrderListYear(url) == null ? "other" : "orderList";
+}
+
+/**
+ * @returns The year shown on an order list (regular or digital orders) page,
+ *          or undefined if `url` isn't a page listing a year's orders.
+ */
+export function getOrderListYear(url: URL): number | undefined {
+  const {
+    ordersPath,
+    yearFilterParam,
+    yearFilterPrefix,
+    digitalOrdersPath,
+    digitalYearFilterParam,
+  } = getMarketplaceForURL(url) ?? DEFAULT_MARKETPLACE;
+
+  const filter =
+    url.pathname === ordersPath
+      ? url.searchParams.get(yearFilterParam)
+      : url.pathname === digitalOrdersPath
+        ? url.searchParams.get(digitalYearFilterParam)
+        : undefined;
+
+  if (!filter?.startsWith(yearFilterPrefix)) {
+    return;
+  }
+
+  const year = parseInt(filter.slice(yearFilterPrefix.length), 10);
+  return isNaN(year) ? undefined : year;
+}
@@ -2,8 +2,13 @@ import path from "node:path";
 import readline from "node:readline/promises";
 import { parseArgs } from "node:util";
 import { DataStore } from "./datastore.ts";
+import { cache } from "./subcommands/cache.ts";
 import { orders } from "./subcommands/orders.ts";
+import { reconcile } from "./subcommands/reconcile.ts";
+import { reparse } from "./subcommands/reparse.ts";
 import { scrape } from "./subcommands/scrape.ts";
+import { search } from "./subcommands/search.ts";
+import { validate } from "./subcommands/validate.ts";
 import type { SubcommandOptions } from "./types.ts";
 
 const DATA_DIR = path.join(
@@ -18,8 +23,13 @@ type Subcommand = (options: SubcommandOptions) => Promise<void>;
 type SubcommandSet = Record<string, Subcommand>;
 
 const SUBCOMMANDS: SubcommandSet = {
+  cache,
   orders,
+  reconcile,
+  reparse,
   scrape,
+  search,
+  validate,
 };
 
 const DEFAULT_SUBCOMMAND = "orders";
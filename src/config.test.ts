@@ -0,0 +1,72 @@
+import assert from "node:assert";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { getConfigPath, loadConfig } from "./config.ts";
+
+describe("#loadConfig", () => {
+  async function withConfig(
+    contents: string | undefined,
+    fn: (dataDir: string) => Promise<void>,
+  ) {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "aos-config-"));
+    try {
+      if (contents != null) {
+        await fs.writeFile(getConfigPath(dataDir), contents);
+      }
+      await fn(dataDir);
+    } finally {
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  }
+
+  it("returns an empty config when there is no config file", () =>
+    withConfig(undefined, async (dataDir) => {
+      assert.deepStrictEqual(await loadConfig(dataDir), {});
+    }));
+
+  it("reads browserPath", () =>
+    withConfig('{"browserPath": "/usr/bin/chromium"}', async (dataDir) => {
+      assert.deepStrictEqual(await loadConfig(dataDir), {
+        browserPath: "/usr/bin/chromium",
+      });
+    }));
+
+  it("reads cacheMaxAge durations", () =>
+    withConfig(
+      '{"cacheMaxAge": {"orderList": "1 week", "invoice": "2 days"}}',
+      async (dataDir) => {
+        assert.deepStrictEqual(await loadConfig(dataDir), {
+          cacheMaxAge: {
+            orderList: 7 * 24 * 60 * 60 * 1000,
+            invoice: 2 * 24 * 60 * 60 * 1000,
+          },
+        });
+      },
+    ));
+
+  it("reports invalid cacheMaxAge settings", async () => {
+    await withConfig(
+      '{"cacheMaxAge": {"thumbnail": "1 day"}}',
+      async (dataDir) => {
+        await assert.rejects(() => loadConfig(dataDir), /Unknown page type/);
+      },
+    );
+    // Pages other than order lists and invoices are never read from the cache
+    await withConfig('{"cacheMaxAge": {"other": "1 day"}}', async (dataDir) => {
+      await assert.rejects(
+        () => loadConfig(dataDir),
+        /Valid types are: orderList, invoice$/,
+      );
+    });
+    await withConfig('{"cacheMaxAge": {"invoice": 5}}', async (dataDir) => {
+      await assert.rejects(() => loadConfig(dataDir), /must be a duration/);
+    });
+  });
+
+  it("reports invalid JSON", () =>
+    withConfig("{", async (dataDir) => {
+      await assert.rejects(() => loadConfig(dataDir), /Invalid JSON/);
+    }));
+});
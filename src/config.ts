@@ -0,0 +1,104 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  EXPIRING_CACHE_PAGE_TYPES,
+  type ExpiringCachePageType,
+} from "./cache.ts";
+import { parseDuration } from "./utils.ts";
+
+/**
+ * Settings read from config.json in the data directory. Everything is
+ * optional.
+ */
+export type Config = {
+  /**
+   * Path to the Chrome or Chromium executable used for scraping.
+   */
+  browserPath?: string;
+
+  /**
+   * How long cached pages of each type are used before being fetched again,
+   * in milliseconds. Written in config.json as durations, e.g.
+   * `{"orderList": "1 week", "invoice": "52 weeks"}`.
+   */
+  cacheMaxAge?: Partial<Record<ExpiringCachePageType, number>>;
+};
+
+export const CONFIG_FILE_NAME = "config.json";
+
+export function getConfigPath(dataDir: string): string {
+  return path.join(dataDir, CONFIG_FILE_NAME);
+}
+
+/**
+ * Loads config.json from `dataDir`. A missing file is the same as an empty
+ * config.
+ */
+export async function loadConfig(dataDir: string): Promise<Config> {
+  const configPath = getConfigPath(dataDir);
+  let json: string;
+
+  try {
+    json = await fs.readFile(configPath, "utf8");
+  } catch (err) {
+    if (err.code === "ENOENT") {
+      return {};
+    }
+    throw err;
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(json);
+  } catch (err) {
+    throw new Error(`Invalid JSON in ${configPath}: ${err.message}`);
+  }
+
+  if (config == null || typeof config !== "object" || Array.isArray(config)) {
+    throw new Error(`${configPath} must contain a JSON object`);
+  }
+
+  const { browserPath, cacheMaxAge } = config as Record<string, unknown>;
+  const result: Config = {};
+
+  if (browserPath != null) {
+    if (typeof browserPath !== "string") {
+      throw new Error(`browserPath in ${configPath} must be a string`);
+    }
+    result.browserPath = browserPath;
+  }
+
+  if (cacheMaxAge != null) {
+    result.cacheMaxAge = parseCacheMaxAge(cacheMaxAge, configPath);
+  }
+
+  return result;
+}
+
+function parseCacheMaxAge(
+  value: unknown,
+  configPath: string,
+): Partial<Record<ExpiringCachePageType, number>> {
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`cacheMaxAge in ${configPath} must be an object`);
+  }
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([type, age]) => {
+      if (!EXPIRING_CACHE_PAGE_TYPES.includes(type as ExpiringCachePageType)) {
+        throw new Error(
+          `Unknown page type "${type}" in cacheMaxAge in ${configPath}. Valid types are: ${EXPIRING_CACHE_PAGE_TYPES.join(", ")}`,
+        );
+      }
+
+      const ms = typeof age === "string" ? parseDuration(age) : undefined;
+      if (ms == null || ms < 0) {
+        throw new Error(
+          `cacheMaxAge.${type} in ${configPath} must be a duration like "30 days"`,
+        );
+      }
+
+      return [type, ms];
+    }),
+  );
+}
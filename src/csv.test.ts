@@ -0,0 +1,58 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { createCsvOutput, formatCsvField, parseCsv } from "./csv.ts";
+
+describe("#formatCsvField", () => {
+  const TESTS: [unknown, string][] = [
+    ["plain", "plain"],
+    [12, "12"],
+    [undefined, ""],
+    [null, ""],
+    ["a,b", '"a,b"'],
+    ['6" cable', '"6"" cable"'],
+    ["line 1\nline 2", '"line 1\nline 2"'],
+  ];
+
+  TESTS.forEach(([input, expected]) => {
+    it(`formats ${JSON.stringify(input)} as ${JSON.stringify(expected)}`, () => {
+      assert.equal(formatCsvField(input), expected);
+    });
+  });
+});
+
+describe("#createCsvOutput", () => {
+  it("writes a header row followed by rows in column order", () => {
+    const lines: string[] = [];
+    const outputRow = createCsvOutput(["id", "name"], (line) =>
+      lines.push(line),
+    );
+
+    outputRow({ name: "Cable, HDMI", id: "123" });
+
+    assert.deepStrictEqual(lines, ["id,name\r\n", '123,"Cable, HDMI"\r\n']);
+  });
+});
+
+describe("#parseCsv", () => {
+  it("parses quoted fields, escaped quotes and embedded line breaks", () => {
+    const csv =
+      'Date,Description,Amount\r\n01/05/2024,"AMAZON, INC","-12.34"\r\n01/06/2024,"6"" cable\nx",5\n\n';
+
+    assert.deepStrictEqual(parseCsv(csv), [
+      ["Date", "Description", "Amount"],
+      ["01/05/2024", "AMAZON, INC", "-12.34"],
+      ["01/06/2024", '6" cable\nx', "5"],
+    ]);
+  });
+
+  it("round-trips rows written by createCsvOutput", () => {
+    let csv = "";
+    const outputRow = createCsvOutput(["a", "b"], (line) => (csv += line));
+    outputRow({ a: 'say "hi"', b: "x,y" });
+
+    assert.deepStrictEqual(parseCsv(csv), [
+      ["a", "b"],
+      ['say "hi"', "x,y"],
+    ]);
+  });
+});
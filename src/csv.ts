@@ -1,5 +1,97 @@
-export function createCsvOutput() {
+const NEEDS_QUOTING = /[",\r\n]/;
+
+/**
+ * Creates a function that writes rows as RFC 4180 CSV. The header row is
+ * written immediately, and values are written in the order of `columns`.
+ */
+export function createCsvOutput(
+  columns: string[],
+  write: (line: string) => void = (line) => process.stdout.write(line),
+) {
+  write(formatCsvRow(columns));
+
   return function outputRow(row: Record<string, unknown>) {
-    console.log(Object.values(row));
+    write(formatCsvRow(columns.map((column) => row[column])));
   };
 }
+
+export function formatCsvRow(values: unknown[]): string {
+  return values.map(formatCsvField).join(",") + "\r\n";
+}
+
+export function formatCsvField(value: unknown): string {
+  if (value == null) {
+    return "";
+  }
+
+  const str = String(value);
+
+  if (!NEEDS_QUOTING.test(str)) {
+    return str;
+  }
+
+  return `"${str.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Parses RFC 4180 CSV into rows of fields. Quoted fields may contain commas,
+ * doubled quotes and line breaks. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+
+  const endField = () => {
+    row.push(fieldWasQuoted ? field : field.trim());
+    field = "";
+    fieldWasQuoted = false;
+  };
+
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        field += c;
+      }
+      continue;
+    }
+
+    if (c === '"' && field.trim() === "") {
+      inQuotes = true;
+      fieldWasQuoted = true;
+      field = "";
+    } else if (c === ",") {
+      endField();
+    } else if (c === "\r" || c === "\n") {
+      if (c === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      field += c;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,569 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { DataStore, type OrderFilters } from "./datastore.ts";
+import { Money } from "./money.ts";
+import type { Order } from "./types.ts";
+
+const ORDER: Order = {
+  id: "123-4567890-1234567",
+  currency: "$",
+  date: "2024-03-05",
+  payments: [
+    {
+      type: "credit_card",
+      cardType: "Visa",
+      last4: "1234",
+      date: "2024-03-06",
+      amount: "$20.00",
+      amountCents: 2000,
+    },
+    {
+      type: "gift_card",
+      date: "2024-03-05",
+      amount: "$6.50",
+      amountCents: 650,
+    },
+  ],
+  placedBy: "Jane Doe",
+  shipments: [
+    {
+      items: [
+        {
+          name: "HDMI cable",
+          price: "$10.00",
+          priceCents: 1000,
+          quantity: 2,
+          asin: "B00EXAMPLE",
+          productURL: "https://www.amazon.com/dp/B00EXAMPLE",
+          soldBy: "Amazon.com Services, Inc",
+        },
+      ],
+      shippingAddress: {
+        name: "Jane Doe",
+        address: "123 Main St",
+        city: "Springfield",
+        state: "OR",
+        zip: "97477",
+        country: "United States",
+        name2: "Acme Corp",
+      },
+      date: "2024-03-06",
+    },
+    {
+      items: [
+        {
+          name: "USB charger",
+          price: "$5.00",
+          priceCents: 500,
+          quantity: 1,
+        },
+      ],
+    },
+  ],
+  shippingCost: "$0.00",
+  shippingCostCents: 0,
+  subtotal: "$25.00",
+  subtotalCents: 2500,
+  tax: "$1.50",
+  taxCents: 150,
+  total: "$26.50",
+  totalCents: 2650,
+};
+
+describe("DataStore", () => {
+  describe("#getOrders", () => {
+    it("rebuilds saved orders from the database tables", async () => {
+      const datastore = new DataStore(":memory:");
+      await datastore.saveOrder(
+        ORDER,
+        "default",
+        new URL("https://www.amazon.com/gp/css/summary/print.html"),
+        "<html></html>",
+      );
+
+      const orders = await datastore.getOrders();
+
+      assert.deepStrictEqual(orders, [ORDER]);
+    });
+
+    it("replaces items when an order is saved again", async () => {
+      const datastore = new DataStore(":memory:");
+      const invoiceURL = new URL(
+        "https://www.amazon.com/gp/css/summary/print.html",
+      );
+      await datastore.saveOrder(ORDER, "default", invoiceURL, "");
+      await datastore.saveOrder(ORDER, "default", invoiceURL, "");
+
+      const [order] = await datastore.getOrders();
+
+      assert.deepStrictEqual(
+        order.shipments.map((s) => s.items.length),
+        [1, 1],
+      );
+    });
+    it("round-trips digital orders", async () => {
+      const datastore = new DataStore(":memory:");
+      const order: Order = {
+        ...ORDER,
+        id: "D01-1234567-1234567",
+        digital: true,
+        shipments: [{ items: ORDER.shipments[1].items }],
+        subtotal: "$5.00",
+        subtotalCents: 500,
+      };
+      await datastore.saveOrder(
+        order,
+        "default",
+        new URL(
+          "https://www.amazon.com/gp/digital/your-account/order-summary.html?orderID=D01-1234567-1234567",
+        ),
+        "",
+      );
+
+      const orders = await datastore.getOrders();
+
+      assert.deepStrictEqual(orders, [order]);
+    });
+
+    it("round-trips discounts", async () => {
+      const datastore = new DataStore(":memory:");
+      const order: Order = {
+        ...ORDER,
+        discounts: [
+          {
+            type: "coupon",
+            description: "Your Coupon Savings",
+            amount: "$2.00",
+            amountCents: 200,
+          },
+        ],
+        total: "$24.50",
+        totalCents: 2450,
+      };
+      const invoiceURL = new URL(
+        "https://www.amazon.com/gp/css/summary/print.html",
+      );
+      await datastore.saveOrder(order, "default", invoiceURL, "");
+      await datastore.saveOrder(order, "default", invoiceURL, "");
+
+      const orders = await datastore.getOrders();
+
+      assert.deepStrictEqual(orders, [order]);
+    });
+
+    it("round-trips warnings", async () => {
+      const datastore = new DataStore(":memory:");
+      const order: Order = {
+        ...ORDER,
+        warnings: [
+          {
+            code: "payment_total_mismatch",
+            message: "Payments add up to $20.00, but the total is $26.50",
+          },
+        ],
+      };
+      const invoiceURL = new URL(
+        "https://www.amazon.com/gp/css/summary/print.html",
+      );
+      await datastore.saveOrder(order, "default", invoiceURL, "");
+      await datastore.saveOrder(order, "default", invoiceURL, "");
+
+      const orders = await datastore.getOrders();
+
+      assert.deepStrictEqual(orders, [order]);
+    });
+
+    it("round-trips refunds", async () => {
+      const datastore = new DataStore(":memory:");
+      const order: Order = {
+        ...ORDER,
+        refunds: [
+          {
+            status: "refunded",
+            itemName: "USB charger",
+            date: "2024-03-20",
+            amount: "$5.00",
+            amountCents: 500,
+            paymentType: "credit_card",
+            cardType: "Visa",
+            last4: "1234",
+          },
+          {
+            status: "pending",
+            itemName: "HDMI cable",
+            amount: "$20.00",
+            amountCents: 2000,
+          },
+        ],
+      };
+      const invoiceURL = new URL(
+        "https://www.amazon.com/gp/css/summary/print.html",
+      );
+      await datastore.saveOrder(order, "default", invoiceURL, "");
+      await datastore.saveOrder(order, "default", invoiceURL, "");
+
+      const orders = await datastore.getOrders();
+
+      assert.deepStrictEqual(orders, [order]);
+    });
+  });
+
+  describe("#saveOrder", () => {
+    it("refuses to overwrite an order from another marketplace", async () => {
+      const datastore = new DataStore(":memory:");
+      await datastore.saveOrder(
+        ORDER,
+        "default",
+        new URL("https://www.amazon.com/gp/css/summary/print.html"),
+        "",
+      );
+
+      await assert.rejects(
+        () =>
+          datastore.saveOrder(
+            ORDER,
+            "default",
+            new URL("https://www.amazon.co.uk/gp/css/summary/print.html"),
+            "",
+          ),
+        /already stored from marketplace "us"/,
+      );
+    });
+  });
+
+  describe("#getInvoiceHTML", () => {
+    it("returns the invoice saved with an order", async () => {
+      const datastore = new DataStore(":memory:");
+      const invoiceHTML = "<html><body>Order #123</body></html>";
+      await datastore.saveOrder(
+        ORDER,
+        "default",
+        new URL("https://www.amazon.com/gp/css/summary/print.html"),
+        invoiceHTML,
+      );
+
+      assert.equal(await datastore.getInvoiceHTML(ORDER.id), invoiceHTML);
+      assert.equal(await datastore.getInvoiceHTML("other"), undefined);
+    });
+  });
+
+  describe("#getOrders with filters", () => {
+    const OTHER_ORDER: Order = {
+      ...ORDER,
+      id: "999-4567890-1234567",
+      date: "2023-01-10",
+      payments: [
+        {
+          type: "gift_card",
+          date: "2023-01-10",
+          amount: "$26.50",
+          amountCents: 2650,
+        },
+      ],
+      shipments: [
+        {
+          items: [
+            {
+              name: "100% cotton towel",
+              price: "$25.00",
+              priceCents: 2500,
+              quantity: 1,
+            },
+          ],
+        },
+      ],
+    };
+
+    async function createDataStore(): Promise<DataStore> {
+      const datastore = new DataStore(":memory:");
+      const invoiceURL = new URL(
+        "https://www.amazon.com/gp/css/summary/print.html",
+      );
+      await datastore.saveOrder(ORDER, "default", invoiceURL, "");
+      await datastore.saveOrder(OTHER_ORDER, "default", invoiceURL, "");
+      return datastore;
+    }
+
+    const TESTS: [string, OrderFilters, string[]][] = [
+      ["no filters", {}, [OTHER_ORDER.id, ORDER.id]],
+      ["ids", { ids: [ORDER.id] }, [ORDER.id]],
+      ["from", { from: "2024-01-01" }, [ORDER.id]],
+      ["to", { to: "2023-12-31" }, [OTHER_ORDER.id]],
+      ["total", { total: new Money(2650) }, [OTHER_ORDER.id, ORDER.id]],
+      ["total and currency", { total: new Money(2650, "€") }, []],
+      ["charge", { charge: new Money(650) }, [ORDER.id]],
+      ["search", { search: "hdmi" }, [ORDER.id]],
+      ["search with a LIKE wildcard", { search: "100%" }, [OTHER_ORDER.id]],
+      ["card", { card: "1234" }, [ORDER.id]],
+      [
+        "payment type",
+        { paymentType: "gift_card" },
+        [OTHER_ORDER.id, ORDER.id],
+      ],
+      ["ship to city", { shipTo: "springfield" }, [ORDER.id]],
+      ["ship to name2", { shipTo: "Acme" }, [ORDER.id]],
+      ["seller", { seller: "amazon.com" }, [ORDER.id]],
+      ["seller with no matches", { seller: "Acme Widgets" }, []],
+      [
+        "combined filters",
+        { paymentType: "gift_card", from: "2024-01-01", search: "towel" },
+        [],
+      ],
+    ];
+
+    TESTS.forEach(([description, filters, expected]) => {
+      it(`filters by ${description}`, async () => {
+        const datastore = await createDataStore();
+        const orders = await datastore.getOrders({ filters });
+        assert.deepStrictEqual(
+          orders.map((o) => o.id),
+          expected,
+        );
+      });
+    });
+  });
+
+  describe("#getCacheEntries", () => {
+    it("lists entries with their sizes in bytes", async () => {
+      const datastore = new DataStore(":memory:");
+      await datastore.updateCache("b", "£1");
+      await datastore.updateCache("a", "hello");
+
+      assert.deepStrictEqual(
+        (await datastore.getCacheEntries()).map(({ key, bytes }) => ({
+          key,
+          bytes,
+        })),
+        [
+          { key: "a", bytes: 5 },
+          { key: "b", bytes: 3 },
+        ],
+      );
+    });
+  });
+
+  describe("#checkCache", () => {
+    it("returns the cached value", async () => {
+      const datastore = new DataStore(":memory:");
+      await datastore.updateCache("key", "<html>£1</html>");
+
+      assert.equal(await datastore.checkCache("key"), "<html>£1</html>");
+      assert.equal(await datastore.checkCache("other"), undefined);
+    });
+  });
+
+  describe("#getPageBodyStats", () => {
+    it("stores identical pages once", async () => {
+      const datastore = new DataStore(":memory:");
+      const page = "<html>" + "order ".repeat(1000) + "</html>";
+      await datastore.updateCache("a", page);
+      await datastore.updateCache("b", page);
+      await datastore.saveOrder(
+        ORDER,
+        "default",
+        new URL("https://www.amazon.com/gp/css/summary/print.html"),
+        page,
+      );
+
+      const { bytes, storedBytes } = await datastore.getPageBodyStats();
+      assert.equal(bytes, page.length * 3);
+      assert.ok(storedBytes < page.length);
+    });
+
+    it("stops counting pages once nothing uses them", async () => {
+      const datastore = new DataStore(":memory:");
+      await datastore.updateCache("a", "one");
+      await datastore.updateCache("b", "two");
+
+      await datastore.updateCache("a", "two");
+      await datastore.deleteCacheKey("b");
+
+      const stats = await datastore.getPageBodyStats();
+      await datastore.deleteCacheKey("a");
+
+      assert.equal(stats.bytes, 3);
+      assert.deepStrictEqual(await datastore.getPageBodyStats(), {
+        bytes: 0,
+        storedBytes: 0,
+      });
+    });
+  });
+
+  describe("#deleteCacheKeys", () => {
+    it("deletes the given keys", async () => {
+      const datastore = new DataStore(":memory:");
+      await datastore.updateCache("a", "1");
+      await datastore.updateCache("b", "2");
+      await datastore.updateCache("c", "3");
+
+      assert.equal(await datastore.deleteCacheKeys(["a", "c", "missing"]), 2);
+      assert.deepStrictEqual(await datastore.getCacheKeys(), ["b"]);
+    });
+  });
+
+  describe("#getCacheUpdatedAt", () => {
+    it("returns when a key was cached", async () => {
+      const datastore = new DataStore(":memory:");
+      const before = Date.now();
+
+      await datastore.updateCache("key", "value");
+
+      const updatedAt = await datastore.getCacheUpdatedAt("key");
+      assert.ok(updatedAt != null && updatedAt.getTime() >= before);
+      assert.equal(await datastore.getCacheUpdatedAt("other"), undefined);
+    });
+  });
+
+  describe("#saveScrapeProgress", () => {
+    it("keeps the latest progress for each year", async () => {
+      const datastore = new DataStore(":memory:");
+      const progress = {
+        user: "default",
+        marketplace: "us",
+        year: 2024,
+        list: "orders" as const,
+        pageURL:
+          "https://www.amazon.com/your-orders/orders?timeFilter=year-2024",
+        pageIndex: 1,
+        ordersScraped: 0,
+        complete: false,
+      };
+
+      await datastore.saveScrapeProgress(progress);
+      await datastore.saveScrapeProgress({
+        ...progress,
+        pageIndex: 2,
+        lastInvoiceURL: "https://www.amazon.com/gp/css/summary/print.html",
+        ordersScraped: 11,
+      });
+      await datastore.saveScrapeProgress({
+        ...progress,
+        year: 2023,
+        complete: true,
+      });
+      await datastore.saveScrapeProgress({ ...progress, marketplace: "uk" });
+
+      const saved = await datastore.getScrapeProgress("default", "us");
+
+      assert.deepStrictEqual(
+        saved.map(({ updatedAt, ...rest }) => rest),
+        [
+          {
+            ...progress,
+            pageIndex: 2,
+            lastInvoiceURL: "https://www.amazon.com/gp/css/summary/print.html",
+            ordersScraped: 11,
+          },
+          { ...progress, year: 2023, complete: true },
+        ],
+      );
+    });
+  });
+
+  describe("#saveTransactions", () => {
+    const TRANSACTION = {
+      date: "2024-03-07",
+      cardType: "Visa",
+      last4: "1234",
+      amount: "$20.00",
+      amountCents: 2000,
+      orderIDs: [ORDER.id],
+      description: "AMZN Mktp US",
+    };
+
+    it("uses transactions to fill in payment dates", async () => {
+      const datastore = new DataStore(":memory:");
+      await datastore.saveOrder(
+        ORDER,
+        "default",
+        new URL("https://www.amazon.com/gp/css/summary/print.html"),
+        "",
+      );
+      await datastore.saveTransactions([TRANSACTION], "default");
+
+      const [order] = await datastore.getOrders();
+      const [unapplied] = await datastore.getOrders({
+        applyTransactions: false,
+      });
+
+      assert.equal(order.payments[0].date, "2024-03-07");
+      assert.equal(unapplied.payments[0].date, "2024-03-06");
+    });
+
+    it("replaces transactions in the same date range", async () => {
+      const datastore = new DataStore(":memory:");
+      await datastore.saveTransactions(
+        [TRANSACTION, { ...TRANSACTION, date: "2024-03-09" }],
+        "default",
+      );
+      await datastore.saveTransactions(
+        [{ ...TRANSACTION, amount: "$6.50", amountCents: 650 }],
+        "default",
+      );
+
+      assert.deepStrictEqual(
+        (await datastore.getTransactions()).map((t) => [t.date, t.amount]),
+        [
+          ["2024-03-07", "$6.50"],
+          ["2024-03-09", "$20.00"],
+        ],
+      );
+      assert.deepStrictEqual(await datastore.getTransactions([ORDER.id]), [
+        { ...TRANSACTION, amount: "$6.50", amountCents: 650 },
+        { ...TRANSACTION, date: "2024-03-09" },
+      ]);
+    });
+  });
+
+  describe("#searchItems", () => {
+    async function createDataStore(): Promise<DataStore> {
+      const datastore = new DataStore(":memory:");
+      const invoiceURL = new URL(
+        "https://www.amazon.com/gp/css/summary/print.html",
+      );
+      await datastore.saveOrder(ORDER, "default", invoiceURL, "");
+      return datastore;
+    }
+
+    it("finds items by word", async () => {
+      const datastore = await createDataStore();
+      const results = await datastore.searchItems("hdmi");
+      assert.deepStrictEqual(
+        results.map((r) => [r.orderID, r.name]),
+        [[ORDER.id, ORDER.shipments[0].items[0].name]],
+      );
+    });
+
+    it("supports prefix queries", async () => {
+      const datastore = await createDataStore();
+      const results = await datastore.searchItems("charg*");
+      assert.equal(results.length, 1);
+      assert.match(results[0].name, /charger/i);
+    });
+
+    it("supports phrase queries", async () => {
+      const datastore = await createDataStore();
+      assert.equal((await datastore.searchItems('"hdmi cable"')).length, 1);
+      assert.equal((await datastore.searchItems('"cable hdmi"')).length, 0);
+    });
+
+    it("does not return items removed when an order is saved again", async () => {
+      const datastore = await createDataStore();
+      await datastore.saveOrder(
+        { ...ORDER, shipments: [{ ...ORDER.shipments[0], items: [] }] },
+        "default",
+        new URL("https://www.amazon.com/gp/css/summary/print.html"),
+        "",
+      );
+      assert.deepStrictEqual(await datastore.searchItems("hdmi"), []);
+    });
+
+    it("reports invalid queries", async () => {
+      const datastore = await createDataStore();
+      await assert.rejects(
+        () => datastore.searchItems('"hdmi'),
+        /Invalid search query/,
+      );
+    });
+  });
+});
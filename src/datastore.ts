@@ -2,7 +2,146 @@ import path from "node:path";
 import sqlite from "node:sqlite";
 import { saveFixtureHTML } from "./fixtures.ts";
 import { parseInvoiceHTML } from "./invoice-parser/main.ts";
-import type { Order } from "./types.ts";
+import { getMarketplaceForURL } from "./marketplaces.ts";
+import { migrate } from "./migrations.ts";
+import type { Money } from "./money.ts";
+import {
+  decompressPageBody,
+  deleteUnusedPageBodies,
+  savePageBody,
+} from "./page-bodies.ts";
+import { applyTransactions, type Transaction } from "./transactions.ts";
+import type {
+  Discount,
+  Order,
+  OrderItem,
+  OrderWarning,
+  Payment,
+  Refund,
+  Shipment,
+} from "./types.ts";
+
+/**
+ * Filters for getOrders(). All filters must match for an order to be
+ * included.
+ */
+export type OrderFilters = {
+  ids?: string[];
+
+  /** Earliest order date to include, as YYYY-MM-DD. */
+  from?: string;
+
+  /** Latest order date to include, as YYYY-MM-DD. */
+  to?: string;
+
+  /** Order total. `currency` is only compared when set. */
+  total?: Money;
+
+  /** Amount of any single payment. `currency` is only compared when set. */
+  charge?: Money;
+
+  /** Text to look for in item names. */
+  search?: string;
+
+  /** Last 4 digits of the card used for any payment. */
+  card?: string;
+
+  paymentType?: Payment["type"];
+
+  /** Text to look for in the shipping address name or city. */
+  shipTo?: string;
+
+  /** Text to look for in the seller of any item. */
+  seller?: string;
+};
+
+export type GetOrdersOptions = {
+  filters?: OrderFilters;
+  reparse?: boolean;
+
+  /**
+   * Fill in payment details from stored transactions (see
+   * applyTransactions()). Defaults to true.
+   */
+  applyTransactions?: boolean;
+};
+
+export type StoredInvoice = {
+  orderID: string;
+  orderDate: string;
+  user: string;
+  invoiceURL: URL;
+};
+
+/**
+ * A row in the cache table, without its (possibly large) value.
+ */
+export type CacheEntry = {
+  key: string;
+
+  /**
+   * Size of the page before compression.
+   */
+  bytes: number;
+  updatedAt: Date;
+};
+
+/**
+ * How much space cached pages and invoices take up. Identical pages are only
+ * stored once, and are compressed.
+ */
+export type PageBodyStats = {
+  /**
+   * Total size of every cached page and invoice, uncompressed.
+   */
+  bytes: number;
+
+  /**
+   * Space actually used to store them.
+   */
+  storedBytes: number;
+};
+
+export type ItemSearchResult = {
+  orderID: string;
+  orderDate: string;
+  name: string;
+  price: string;
+  quantity: number;
+  shipmentDate?: string;
+  shipTo?: string;
+};
+
+/**
+ * How far a scrape of one year's orders got. Saved as the scrape goes so
+ * that `scrape --resume` can pick up where a failed run stopped.
+ */
+export type ScrapeProgress = {
+  user: string;
+  marketplace: string;
+  year: number;
+
+  /**
+   * Which order list was being scraped: regular orders are scraped before
+   * digital ones.
+   */
+  list: "orders" | "digital";
+  pageURL: string;
+  pageIndex: number;
+
+  /**
+   * The last invoice on the page that was scraped successfully.
+   */
+  lastInvoiceURL?: string;
+  ordersScraped: number;
+  complete: boolean;
+  updatedAt: string;
+};
+
+type FilterSQL = {
+  sql: string;
+  params: sqlite.SupportedValueType[];
+};
 
 export class DataStore {
   #dbPromise: Promise<sqlite.DatabaseSync> | undefined;
@@ -12,36 +151,226 @@ export class DataStore {
     this.#filename = filename;
   }
 
+  /**
+   * @returns Progress for every year scraped for `user` on `marketplace`,
+   *          most recent year first.
+   */
+  async getScrapeProgress(
+    user: string,
+    marketplace: string,
+  ): Promise<ScrapeProgress[]> {
+    const db = await this.initDB();
+    return db
+      .prepare(
+        "SELECT * FROM scrape_progress WHERE user = ? AND marketplace = ? ORDER BY year DESC",
+      )
+      .all(user, marketplace)
+      .map(rowToScrapeProgress);
+  }
+
+  async saveScrapeProgress(
+    progress: Omit<ScrapeProgress, "updatedAt">,
+  ): Promise<void> {
+    const db = await this.initDB();
+    this.insert(db, "scrape_progress", {
+      user: progress.user,
+      marketplace: progress.marketplace,
+      year: progress.year,
+      list: progress.list,
+      page_url: progress.pageURL,
+      page_index: progress.pageIndex,
+      last_invoice_url: progress.lastInvoiceURL ?? null,
+      orders_scraped: progress.ordersScraped,
+      complete: progress.complete ? 1 : 0,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * @returns Stored transactions linked to any of `orderIDs`, or every
+   *          stored transaction if `orderIDs` isn't given.
+   */
+  async getTransactions(orderIDs?: string[]): Promise<Transaction[]> {
+    const db = await this.initDB();
+    return this.queryTransactions(db, orderIDs);
+  }
+
+  /**
+   * Saves transactions scraped from the Transactions page. Previously saved
+   * transactions for `user` in the same date range are replaced, since the
+   * page doesn't give transactions IDs we could match on.
+   */
+  async saveTransactions(
+    transactions: Transaction[],
+    user: string,
+  ): Promise<void> {
+    if (transactions.length === 0) {
+      return;
+    }
+
+    const dates = transactions.map((t) => t.date).sort();
+    const db = await this.initDB();
+
+    db.exec("BEGIN TRANSACTION");
+    try {
+      const range = [user, dates[0], dates[dates.length - 1]];
+
+      db.prepare(
+        "DELETE FROM transaction_orders WHERE transaction_id IN (SELECT id FROM transactions WHERE user = ? AND date BETWEEN ? AND ?)",
+      ).run(...range);
+      db.prepare(
+        "DELETE FROM transactions WHERE user = ? AND date BETWEEN ? AND ?",
+      ).run(...range);
+
+      transactions.forEach((transaction) => {
+        const { lastInsertRowid } = this.insert(db, "transactions", {
+          user,
+          date: transaction.date,
+          description: transaction.description ?? null,
+          card_type: transaction.cardType ?? null,
+          last4: transaction.last4 ?? null,
+          amount: transaction.amount,
+          amount_cents: transaction.amountCents,
+        });
+
+        transaction.orderIDs.forEach((orderID) => {
+          this.insert(db, "transaction_orders", {
+            transaction_id: lastInsertRowid,
+            order_id: orderID,
+          });
+        });
+      });
+
+      db.exec("COMMIT");
+    } catch (err) {
+      db.exec("ROLLBACK");
+      throw err;
+    }
+  }
+
   async checkCache(key: string): Promise<string | undefined> {
     const db = await this.initDB();
-    const statement = db.prepare("SELECT value FROM cache WHERE key = ?");
+    const statement = db.prepare(
+      "SELECT page_bodies.body FROM cache JOIN page_bodies ON page_bodies.hash = cache.body_hash WHERE cache.key = ?",
+    );
     const row = statement.get(key) as any;
 
     if (!row) {
       return;
     }
 
-    return row.value ?? "";
+    return decompressPageBody(row.body);
+  }
+
+  /**
+   * @returns When the cached value for `key` was last updated, or undefined
+   *          if it isn't cached.
+   */
+  async getCacheUpdatedAt(key: string): Promise<Date | undefined> {
+    const db = await this.initDB();
+    const statement = db.prepare("SELECT updated_at FROM cache WHERE key = ?");
+    const row = statement.get(key) as any;
+
+    return row == null ? undefined : new Date(row.updated_at);
   }
 
   async deleteCacheKey(key: string): Promise<void> {
+    await this.deleteCacheKeys([key]);
+  }
+
+  /**
+   * Deletes several cache entries in one transaction.
+   * @returns The number of entries deleted.
+   */
+  async deleteCacheKeys(keys: string[]): Promise<number> {
     const db = await this.initDB();
-    const statement = db.prepare("DELETE FROM cache WHERE key = ?");
-    statement.run(key);
+    const statement = db.prepare(
+      "DELETE FROM cache WHERE key = ? RETURNING body_hash",
+    );
+    const hashes: string[] = [];
+
+    db.exec("BEGIN TRANSACTION");
+    try {
+      keys.forEach((key) => {
+        const row = statement.get(key) as any;
+        if (row != null) {
+          hashes.push(row.body_hash);
+        }
+      });
+      deleteUnusedPageBodies(db, hashes);
+      db.exec("COMMIT");
+    } catch (err) {
+      db.exec("ROLLBACK");
+      throw err;
+    }
+
+    return hashes.length;
   }
 
-  async updateCache(key: string, value: string): Promise<void> {
+  async getCacheEntries(): Promise<CacheEntry[]> {
     const db = await this.initDB();
     const statement = db.prepare(
-      "INSERT INTO cache (key, value, updated_at) VALUES (?, ?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at",
+      "SELECT cache.key, page_bodies.size AS bytes, cache.updated_at FROM cache JOIN page_bodies ON page_bodies.hash = cache.body_hash ORDER BY cache.key",
     );
-    statement.run(key, value, new Date().toISOString());
+    return statement.all().map((row: any) => ({
+      key: row.key,
+      bytes: row.bytes,
+      updatedAt: new Date(row.updated_at),
+    }));
+  }
+
+  async updateCache(key: string, value: string): Promise<void> {
+    const db = await this.initDB();
+    const previous = db
+      .prepare("SELECT body_hash FROM cache WHERE key = ?")
+      .get(key) as { body_hash: string } | undefined;
+
+    db.exec("BEGIN TRANSACTION");
+    try {
+      const hash = savePageBody(db, value);
+      db.prepare(
+        "INSERT INTO cache (key, body_hash, updated_at) VALUES (?, ?, ?) ON CONFLICT (key) DO UPDATE SET body_hash = excluded.body_hash, updated_at = excluded.updated_at",
+      ).run(key, hash, new Date().toISOString());
+
+      if (previous != null && previous.body_hash !== hash) {
+        deleteUnusedPageBodies(db, [previous.body_hash]);
+      }
+      db.exec("COMMIT");
+    } catch (err) {
+      db.exec("ROLLBACK");
+      throw err;
+    }
+  }
+
+  /**
+   * @returns The uncompressed size of every cached page and stored invoice,
+   *          and how much space they take up in the database.
+   */
+  async getPageBodyStats(): Promise<PageBodyStats> {
+    const db = await this.initDB();
+    const row = db
+      .prepare(
+        `SELECT
+          (SELECT COALESCE(SUM(page_bodies.size), 0) FROM cache JOIN page_bodies ON page_bodies.hash = cache.body_hash)
+          + (SELECT COALESCE(SUM(page_bodies.size), 0) FROM orders JOIN page_bodies ON page_bodies.hash = orders.invoice_hash)
+            AS bytes,
+          (SELECT COALESCE(SUM(length(body)), 0) FROM page_bodies) AS stored_bytes`,
+      )
+      .get() as any;
+
+    return { bytes: row.bytes, storedBytes: row.stored_bytes };
+  }
+
+  async getCacheKeys(): Promise<string[]> {
+    const db = await this.initDB();
+    const statement = db.prepare("SELECT key FROM cache ORDER BY key");
+    return statement.all().map((row: any) => row.key);
   }
 
   async getInvoiceHTML(orderID: string): Promise<string | undefined> {
     const db = await this.initDB();
     const statement = db.prepare(
-      "SELECT invoice_html FROM orders WHERE id = ?",
+      "SELECT page_bodies.body FROM orders JOIN page_bodies ON page_bodies.hash = orders.invoice_hash WHERE orders.id = ?",
     );
     const row = statement.get(orderID) as any;
 
@@ -49,28 +378,247 @@ export class DataStore {
       return;
     }
 
-    return row.invoice_html ?? "";
+    return decompressPageBody(row.body);
   }
 
-  async getOrders(): Promise<Order[]> {
+  /**
+   * Returns all stored orders, rebuilt from the payments, shipments and
+   * order_items tables. Pass `reparse: true` to instead re-run the invoice
+   * parser over each order's stored invoice HTML.
+   */
+  async getOrders({
+    filters = {},
+    reparse = false,
+    applyTransactions: shouldApplyTransactions = true,
+  }: GetOrdersOptions = {}): Promise<Order[]> {
     const db = await this.initDB();
-    const statement = db.prepare("SELECT * FROM orders");
-    const orders = await Promise.all(
-      statement.all().map(async (row: any) => {
+    const where = buildOrderFilterSQL(filters);
+    let orders = reparse
+      ? await this.parseStoredInvoices(db, where)
+      : this.buildOrdersFromTables(db, where);
+
+    if (shouldApplyTransactions) {
+      const transactions = this.queryTransactions(
+        db,
+        orders.map((order) => order.id),
+      );
+      orders = orders.map((order) => applyTransactions(order, transactions));
+    }
+
+    return orders.sort(
+      (a: Order, b: Order) =>
+        (a.date ?? "").localeCompare(b.date ?? "") || a.id.localeCompare(b.id),
+    );
+  }
+
+  private queryTransactions(
+    db: sqlite.DatabaseSync,
+    orderIDs?: string[],
+  ): Transaction[] {
+    const where =
+      orderIDs == null
+        ? ""
+        : `WHERE id IN (SELECT transaction_id FROM transaction_orders WHERE order_id IN (${orderIDs.map(() => "?").join(", ")}))`;
+
+    const links = groupByTransactionID(
+      db
+        .prepare("SELECT transaction_id, order_id FROM transaction_orders")
+        .all(),
+    );
+
+    return db
+      .prepare(`SELECT * FROM transactions ${where} ORDER BY date, id`)
+      .all(...(orderIDs ?? []))
+      .map((row: any) => rowToTransaction(row, links.get(row.id) ?? []));
+  }
+
+  private buildOrdersFromTables(
+    db: sqlite.DatabaseSync,
+    { sql, params }: FilterSQL,
+  ): Order[] {
+    const matchingOrderIDs = `SELECT id FROM orders WHERE ${sql}`;
+
+    const paymentsByOrderID = groupByOrderID(
+      db
+        .prepare(
+          `SELECT * FROM payments WHERE order_id IN (${matchingOrderIDs}) ORDER BY id`,
+        )
+        .all(...params),
+    );
+    const shipmentsByOrderID = groupByOrderID(
+      db
+        .prepare(
+          `SELECT * FROM shipments WHERE order_id IN (${matchingOrderIDs}) ORDER BY id`,
+        )
+        .all(...params),
+    );
+    const discountsByOrderID = groupByOrderID(
+      db
+        .prepare(
+          `SELECT * FROM order_discounts WHERE order_id IN (${matchingOrderIDs}) ORDER BY id`,
+        )
+        .all(...params),
+    );
+    const warningsByOrderID = groupByOrderID(
+      db
+        .prepare(
+          `SELECT * FROM order_warnings WHERE order_id IN (${matchingOrderIDs}) ORDER BY id`,
+        )
+        .all(...params),
+    );
+    const refundsByOrderID = groupByOrderID(
+      db
+        .prepare(
+          `SELECT * FROM refunds WHERE order_id IN (${matchingOrderIDs}) ORDER BY id`,
+        )
+        .all(...params),
+    );
+    const itemsByShipmentID = new Map<number, any[]>();
+
+    db.prepare(
+      `SELECT * FROM order_items WHERE order_id IN (${matchingOrderIDs}) ORDER BY id`,
+    )
+      .all(...params)
+      .forEach((row: any) => {
+        const items = itemsByShipmentID.get(row.shipment_id) ?? [];
+        items.push(row);
+        itemsByShipmentID.set(row.shipment_id, items);
+      });
+
+    return db
+      .prepare(
+        `SELECT id, date, currency, digital, placed_by, shipping, shipping_cents, subtotal, subtotal_cents, tax, tax_cents, total, total_cents FROM orders WHERE ${sql}`,
+      )
+      .all(...params)
+      .map((row: any): Order => {
+        const payments = (paymentsByOrderID.get(row.id) ?? []).map(
+          rowToPayment,
+        );
+        const shipments = (shipmentsByOrderID.get(row.id) ?? []).map(
+          (shipmentRow) =>
+            rowToShipment(
+              shipmentRow,
+              itemsByShipmentID.get(shipmentRow.id) ?? [],
+            ),
+        );
+
+        const discounts = (discountsByOrderID.get(row.id) ?? []).map(
+          rowToDiscount,
+        );
+        const refunds = (refundsByOrderID.get(row.id) ?? []).map(rowToRefund);
+        const warnings = (warningsByOrderID.get(row.id) ?? []).map(
+          rowToWarning,
+        );
+
+        return {
+          id: row.id,
+          currency: row.currency,
+          date: row.date,
+          ...(row.digital ? { digital: true } : {}),
+          ...(discounts.length > 0 ? { discounts } : {}),
+          payments,
+          placedBy: row.placed_by ?? undefined,
+          ...(refunds.length > 0 ? { refunds } : {}),
+          shipments,
+          shippingCost: row.shipping ?? undefined,
+          shippingCostCents: row.shipping_cents ?? undefined,
+          subtotal: row.subtotal,
+          subtotalCents: row.subtotal_cents,
+          tax: row.tax,
+          taxCents: row.tax_cents,
+          total: row.total,
+          totalCents: row.total_cents,
+          ...(warnings.length > 0 ? { warnings } : {}),
+        };
+      });
+  }
+
+  private async parseStoredInvoices(
+    db: sqlite.DatabaseSync,
+    { sql, params }: FilterSQL,
+  ): Promise<Order[]> {
+    const statement = db.prepare(
+      `SELECT orders.id, page_bodies.body FROM orders JOIN page_bodies ON page_bodies.hash = orders.invoice_hash WHERE ${sql}`,
+    );
+    return Promise.all(
+      statement.all(...params).map(async (row: any) => {
+        const invoiceHTML = decompressPageBody(row.body);
         try {
-          return parseInvoiceHTML(row.invoice_html);
+          return parseInvoiceHTML(invoiceHTML);
         } catch (err) {
-          const fixtureFile = await saveFixtureHTML(row.invoice_html);
+          const fixtureFile = await saveFixtureHTML(invoiceHTML);
           throw new Error(
             `Error parsing invoice ${row.id}: ${err.message}. Invoice fixtures saved to ${fixtureFile}`,
           );
         }
       }),
     );
+  }
 
-    return orders.sort((a: Order, b: Order) =>
-      (a.date ?? "").localeCompare(b.date),
+  /**
+   * Searches item names using SQLite full-text search. `query` uses FTS5
+   * syntax, so `cab*` matches by prefix and `"hdmi cable"` matches a phrase.
+   * @returns Matching items, best matches first.
+   */
+  async searchItems(query: string, limit = 20): Promise<ItemSearchResult[]> {
+    const db = await this.initDB();
+    const statement = db.prepare(`
+      SELECT
+        f.order_id,
+        o.date AS order_date,
+        i.name,
+        i.price,
+        i.quantity,
+        s.date AS shipment_date,
+        s.name AS ship_to
+      FROM order_items_fts f
+      JOIN order_items i ON i.id = f.item_id
+      JOIN orders o ON o.id = f.order_id
+      LEFT JOIN shipments s ON s.id = i.shipment_id
+      WHERE order_items_fts MATCH ?
+      ORDER BY bm25(order_items_fts), o.date DESC
+      LIMIT ?
+    `);
+
+    let rows: any[];
+    try {
+      rows = statement.all(query, limit);
+    } catch (err) {
+      // Malformed queries only fail once the statement runs
+      if (err.code === "ERR_SQLITE_ERROR") {
+        throw new Error(
+          `Invalid search query ${JSON.stringify(query)}: ${err.message}. Wrap phrases and words with punctuation in double quotes.`,
+        );
+      }
+      throw err;
+    }
+
+    return rows.map((row) => ({
+      orderID: row.order_id,
+      orderDate: row.order_date,
+      name: row.name,
+      price: row.price,
+      quantity: row.quantity,
+      shipmentDate: row.shipment_date ?? undefined,
+      shipTo: row.ship_to || undefined,
+    }));
+  }
+
+  /**
+   * @returns The order ID, user and URL of every invoice stored in the orders
+   *          table. Use getInvoiceHTML() to load the invoice itself.
+   */
+  async getStoredInvoices(): Promise<StoredInvoice[]> {
+    const db = await this.initDB();
+    const statement = db.prepare(
+      "SELECT id, date, user, invoice_url FROM orders ORDER BY date, id",
     );
+    return statement.all().map((row: any) => ({
+      orderID: row.id,
+      orderDate: row.date,
+      user: row.user,
+      invoiceURL: new URL(row.invoice_url),
+    }));
   }
 
   async getUsers() {
@@ -90,7 +638,10 @@ export class DataStore {
     try {
       this.saveOrderData(db, order, user, invoiceURL, invoiceHTML);
       this.saveOrderPayments(db, order);
+      this.saveOrderDiscounts(db, order);
+      this.saveOrderRefunds(db, order);
       this.saveOrderShipments(db, order);
+      this.saveOrderWarnings(db, order);
       db.exec("COMMIT");
     } catch (err) {
       db.exec("ROLLBACK");
@@ -105,13 +656,31 @@ export class DataStore {
     invoiceURL: URL,
     invoiceHTML: string,
   ) {
+    // Invoices from hosts we don't know about are recorded by hostname
+    const marketplace =
+      getMarketplaceForURL(invoiceURL)?.id ?? invoiceURL.hostname;
+
+    const existing = db
+      .prepare("SELECT marketplace, invoice_hash FROM orders WHERE id = ?")
+      .get(order.id) as
+      | { marketplace: string; invoice_hash: string }
+      | undefined;
+
+    if (existing != null && existing.marketplace !== marketplace) {
+      throw new Error(
+        `Order ${order.id} is already stored from marketplace "${existing.marketplace}", not saving it from "${marketplace}"`,
+      );
+    }
+
+    const invoiceHash = savePageBody(db, invoiceHTML);
+
     this.insert(db, "orders", {
       id: order.id,
       date: order.date,
       user: user,
       currency: order.currency,
       invoice_url: invoiceURL.toString(),
-      invoice_html: invoiceHTML,
+      invoice_hash: invoiceHash,
       shipping: order.shippingCost,
       shipping_cents: order.shippingCostCents,
       subtotal: order.subtotal,
@@ -121,7 +690,14 @@ export class DataStore {
       total: order.total,
       total_cents: order.totalCents,
       complete: 1,
+      placed_by: order.placedBy,
+      digital: order.digital ? 1 : 0,
+      marketplace,
     });
+
+    if (existing != null && existing.invoice_hash !== invoiceHash) {
+      deleteUnusedPageBodies(db, [existing.invoice_hash]);
+    }
   }
 
   private saveOrderPayments(db: sqlite.DatabaseSync, order: Order) {
@@ -140,7 +716,40 @@ export class DataStore {
     });
   }
 
+  private saveOrderDiscounts(db: sqlite.DatabaseSync, order: Order) {
+    db.prepare("DELETE FROM order_discounts WHERE order_id = ?").run(order.id);
+
+    (order.discounts ?? []).forEach((discount) => {
+      this.insert(db, "order_discounts", {
+        order_id: order.id,
+        type: discount.type,
+        description: discount.description,
+        amount: discount.amount,
+        amount_cents: discount.amountCents,
+      });
+    });
+  }
+
+  private saveOrderRefunds(db: sqlite.DatabaseSync, order: Order) {
+    db.prepare("DELETE FROM refunds WHERE order_id = ?").run(order.id);
+
+    (order.refunds ?? []).forEach((refund) => {
+      this.insert(db, "refunds", {
+        order_id: order.id,
+        status: refund.status,
+        item_name: refund.itemName ?? null,
+        date: refund.date ?? null,
+        amount: refund.amount,
+        amount_cents: refund.amountCents,
+        payment_type: refund.paymentType ?? null,
+        card_type: refund.cardType ?? null,
+        last4: refund.last4 ?? null,
+      });
+    });
+  }
+
   private saveOrderShipments(db: sqlite.DatabaseSync, order: Order) {
+    db.prepare("DELETE FROM order_items_fts WHERE order_id = ?").run(order.id);
     db.prepare("DELETE FROM order_items WHERE order_id = ?").run(order.id);
     db.prepare("DELETE FROM shipments WHERE order_id = ?").run(order.id);
 
@@ -149,6 +758,7 @@ export class DataStore {
         order_id: order.id,
         date: shipment.date,
         name: shipment.shippingAddress?.name ?? "",
+        name2: shipment.shippingAddress?.name2,
         address: shipment.shippingAddress?.address ?? "",
         city: shipment.shippingAddress?.city ?? "",
         state: shipment.shippingAddress?.state ?? "",
@@ -156,25 +766,46 @@ export class DataStore {
         country: shipment.shippingAddress?.country ?? "",
       });
 
-      this.saveOrderItems(db, order, lastInsertRowid);
+      this.saveOrderItems(db, order, shipment, lastInsertRowid);
     });
   }
 
   private saveOrderItems(
     db: sqlite.DatabaseSync,
     order: Order,
+    shipment: Shipment,
     shipmentID: number | bigint,
   ) {
-    order.shipments.forEach((shipment) => {
-      shipment.items.forEach((item) => {
-        this.insert(db, "order_items", {
-          order_id: order.id,
-          shipment_id: shipmentID,
-          name: item.name,
-          price: item.price,
-          price_cents: item.priceCents,
-          quantity: item.quantity,
-        });
+    shipment.items.forEach((item) => {
+      const { lastInsertRowid } = this.insert(db, "order_items", {
+        order_id: order.id,
+        shipment_id: shipmentID,
+        name: item.name,
+        price: item.price,
+        price_cents: item.priceCents,
+        quantity: item.quantity,
+        asin: item.asin ?? null,
+        product_url: item.productURL ?? null,
+        sold_by: item.soldBy ?? null,
+        supplied_by: item.suppliedBy ?? null,
+      });
+
+      this.insert(db, "order_items_fts", {
+        name: item.name,
+        order_id: order.id,
+        item_id: lastInsertRowid,
+      });
+    });
+  }
+
+  private saveOrderWarnings(db: sqlite.DatabaseSync, order: Order) {
+    db.prepare("DELETE FROM order_warnings WHERE order_id = ?").run(order.id);
+
+    (order.warnings ?? []).forEach((warning) => {
+      this.insert(db, "order_warnings", {
+        order_id: order.id,
+        code: warning.code,
+        message: warning.message,
       });
     });
   }
@@ -184,81 +815,17 @@ export class DataStore {
       return this.#dbPromise;
     }
 
-    return new Promise((resolve) => {
+    this.#dbPromise = new Promise((resolve) => {
       const dbPath = path.join(this.#filename);
 
       const db = new sqlite.DatabaseSync(dbPath);
 
-      db.exec(`
-        CREATE TABLE IF NOT EXISTS orders (
-          id TEXT PRIMARY KEY,
-          date TEXT NOT NULL,
-          user TEXT NOT NULL,
-          currency TEXT NOT NULL,
-          invoice_url TEXT NOT NULL,
-          invoice_html TEXT NOT NULL,
-          shipping TEXT NULL,
-          shipping_cents INTEGER NULL,
-          subtotal TEXT NOT NULL,
-          subtotal_cents INTEGER NOT NULL,
-          tax TEXT NOT NULL,
-          tax_cents INTEGER NOT NULL,
-          total TEXT NOT NULL,
-          total_cents INTEGER NOT NULL,
-          complete INTEGER NOT NULL DEFAULT 0
-        );
-      `);
-
-      db.exec(`
-        CREATE TABLE IF NOT EXISTS payments (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          order_id TEXT NOT NULL,
-          date TEXT NOT NULL,
-          type TEXT NOT NULL,
-          card_type TEXT NULL,
-          last4 TEXT NULL,
-          amount TEXT NOT NULL,
-          amount_cents INTEGER NOT NULL
-        );
-      `);
-
-      db.exec(`
-        CREATE TABLE IF NOT EXISTS shipments (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          order_id TEXT NOT NULL,
-          date TEXT NULL,
-          name TEXT NOT NULL,
-          address TEXT NOT NULL,
-          city TEXT NOT NULL,
-          state TEXT NOT NULL,
-          zip TEXT NOT NULL,
-          country TEXT NOT NULL
-        );
-      `);
-
-      db.exec(`
-        CREATE TABLE IF NOT EXISTS order_items (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          order_id TEXT NOT NULL,
-          shipment_id INTEGER NOT NULL,
-          name TEXT NOT NULL,
-          price TEXT NOT NULL,
-          price_cents INTEGER NOT NULL,
-          quantity INTEGER NOT NULL
-        );
-      `);
-
-      db.exec(`
-        CREATE TABLE IF NOT EXISTS cache (
-          key TEXT NOT NULL,
-          value TEXT NOT NULL,
-          updated_at TEXT NOT NULL,
-          PRIMARY KEY (key)
-        );
-      `);
+      migrate(db);
 
       resolve(db);
     });
+
+    return this.#dbPromise;
   }
 
   private insert(
@@ -279,11 +846,291 @@ export class DataStore {
         ),
       );
     } catch (err) {
-      console.error(
-        orderedValues.filter(([name, value]) => name != "invoice_html"),
-      );
+      console.error(`Error inserting into ${table}:`);
       console.error(err);
       throw err;
     }
   }
 }
+
+function buildOrderFilterSQL(filters: OrderFilters): FilterSQL {
+  const conditions: string[] = [];
+  const params: sqlite.SupportedValueType[] = [];
+
+  const add = (condition: string, ...values: sqlite.SupportedValueType[]) => {
+    conditions.push(condition);
+    params.push(...values);
+  };
+
+  if (filters.ids != null && filters.ids.length > 0) {
+    add(
+      `orders.id IN (${filters.ids.map(() => "?").join(", ")})`,
+      ...filters.ids,
+    );
+  }
+
+  if (filters.from != null) {
+    add("orders.date >= ?", filters.from);
+  }
+
+  if (filters.to != null) {
+    add("orders.date <= ?", filters.to);
+  }
+
+  if (filters.total != null) {
+    add("orders.total_cents = ?", filters.total.cents);
+    if (filters.total.currency != null) {
+      add("orders.currency = ?", filters.total.currency);
+    }
+  }
+
+  if (filters.charge != null) {
+    add(
+      "EXISTS (SELECT 1 FROM payments p WHERE p.order_id = orders.id AND p.amount_cents = ?)",
+      filters.charge.cents,
+    );
+    if (filters.charge.currency != null) {
+      add("orders.currency = ?", filters.charge.currency);
+    }
+  }
+
+  if (filters.search != null) {
+    add(
+      "EXISTS (SELECT 1 FROM order_items i WHERE i.order_id = orders.id AND i.name LIKE ? ESCAPE '\\')",
+      likePattern(filters.search),
+    );
+  }
+
+  if (filters.card != null) {
+    add(
+      "EXISTS (SELECT 1 FROM payments p WHERE p.order_id = orders.id AND p.last4 = ?)",
+      filters.card,
+    );
+  }
+
+  if (filters.paymentType != null) {
+    add(
+      "EXISTS (SELECT 1 FROM payments p WHERE p.order_id = orders.id AND p.type = ?)",
+      filters.paymentType,
+    );
+  }
+
+  if (filters.shipTo != null) {
+    const pattern = likePattern(filters.shipTo);
+    add(
+      "EXISTS (SELECT 1 FROM shipments s WHERE s.order_id = orders.id AND (s.name LIKE ? ESCAPE '\\' OR s.name2 LIKE ? ESCAPE '\\' OR s.city LIKE ? ESCAPE '\\'))",
+      pattern,
+      pattern,
+      pattern,
+    );
+  }
+
+  if (filters.seller != null) {
+    add(
+      "EXISTS (SELECT 1 FROM order_items i WHERE i.order_id = orders.id AND i.sold_by LIKE ? ESCAPE '\\')",
+      likePattern(filters.seller),
+    );
+  }
+
+  return {
+    sql: conditions.length === 0 ? "1" : conditions.join(" AND "),
+    params,
+  };
+}
+
+/**
+ * @returns A LIKE pattern that matches `text` anywhere in a value.
+ */
+function likePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+function groupByOrderID(rows: unknown[]): Map<string, any[]> {
+  return rows.reduce<Map<string, any[]>>((map, row: any) => {
+    const group = map.get(row.order_id) ?? [];
+    group.push(row);
+    map.set(row.order_id, group);
+    return map;
+  }, new Map());
+}
+
+function rowToScrapeProgress(row: any): ScrapeProgress {
+  const progress: ScrapeProgress = {
+    user: row.user,
+    marketplace: row.marketplace,
+    year: row.year,
+    list: row.list,
+    pageURL: row.page_url,
+    pageIndex: row.page_index,
+    ordersScraped: row.orders_scraped,
+    complete: !!row.complete,
+    updatedAt: row.updated_at,
+  };
+
+  if (row.last_invoice_url != null) {
+    progress.lastInvoiceURL = row.last_invoice_url;
+  }
+
+  return progress;
+}
+
+function groupByTransactionID(rows: unknown[]): Map<number, string[]> {
+  return rows.reduce<Map<number, string[]>>((map, row: any) => {
+    const group = map.get(row.transaction_id) ?? [];
+    group.push(row.order_id);
+    map.set(row.transaction_id, group);
+    return map;
+  }, new Map());
+}
+
+function rowToTransaction(row: any, orderIDs: string[]): Transaction {
+  const transaction: Transaction = {
+    date: row.date,
+    amount: row.amount,
+    amountCents: row.amount_cents,
+    orderIDs,
+  };
+
+  const optionalFields = {
+    cardType: row.card_type,
+    last4: row.last4,
+    description: row.description,
+  };
+
+  Object.entries(optionalFields).forEach(([key, value]) => {
+    if (value != null) {
+      transaction[key] = value;
+    }
+  });
+
+  return transaction;
+}
+
+function rowToPayment(row: any): Payment {
+  const base = {
+    date: row.date,
+    amount: row.amount,
+    amountCents: row.amount_cents,
+  };
+
+  switch (row.type) {
+    case "credit_card":
+      return {
+        type: "credit_card",
+        cardType: row.card_type,
+        last4: row.last4,
+        ...base,
+      };
+    case "gift_card":
+      return { type: "gift_card", ...base };
+    case "cash":
+      return { type: "cash", ...base };
+    default:
+      throw new Error(`Unexpected payment type: ${row.type}`);
+  }
+}
+
+function rowToDiscount(row: any): Discount {
+  return {
+    type: row.type,
+    description: row.description,
+    amount: row.amount,
+    amountCents: row.amount_cents,
+  };
+}
+
+function rowToWarning(row: any): OrderWarning {
+  return {
+    code: row.code,
+    message: row.message,
+  };
+}
+
+function rowToRefund(row: any): Refund {
+  const refund: Refund = {
+    status: row.status,
+    amount: row.amount,
+    amountCents: row.amount_cents,
+  };
+
+  const optionalFields = {
+    itemName: row.item_name,
+    date: row.date,
+    paymentType: row.payment_type,
+    cardType: row.card_type,
+    last4: row.last4,
+  };
+
+  Object.entries(optionalFields).forEach(([key, value]) => {
+    if (value != null) {
+      refund[key] = value;
+    }
+  });
+
+  return refund;
+}
+
+function rowToItem(row: any): OrderItem {
+  const item: OrderItem = {
+    name: row.name,
+    price: row.price,
+    priceCents: row.price_cents,
+    quantity: row.quantity,
+  };
+
+  if (row.asin != null) {
+    item.asin = row.asin;
+  }
+
+  if (row.product_url != null) {
+    item.productURL = row.product_url;
+  }
+
+  if (row.sold_by != null) {
+    item.soldBy = row.sold_by;
+  }
+
+  if (row.supplied_by != null) {
+    item.suppliedBy = row.supplied_by;
+  }
+
+  return item;
+}
+
+function rowToShipment(row: any, itemRows: any[]): Shipment {
+  const shipment: Shipment = {
+    items: itemRows.map(rowToItem),
+  };
+
+  const addressFields = [
+    "name",
+    "address",
+    "city",
+    "state",
+    "zip",
+    "country",
+  ] as const;
+
+  // Orders that are not shipped anywhere (gift cards, in-store purchases)
+  // are saved with a blank address.
+  if (addressFields.some((field) => row[field] !== "")) {
+    shipment.shippingAddress = {
+      name: row.name,
+      address: row.address,
+      city: row.city,
+      state: row.state,
+      zip: row.zip,
+      country: row.country,
+    };
+
+    if (row.name2 != null) {
+      shipment.shippingAddress.name2 = row.name2;
+    }
+  }
+
+  if (row.date != null) {
+    shipment.date = row.date;
+  }
+
+  return shipment;
+}
@@ -0,0 +1,31 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { getProductLinks } from "./html.ts";
+
+describe("#getProductLinks", () => {
+  it("finds /dp/ and /gp/product/ links", () => {
+    const html = `
+      <a href="https://www.amazon.com/dp/B00EXAMPLE?ref=abc">HDMI   cable</a>
+      <a href="/gp/product/B01EXAMPLE/ref=xyz"><span>USB</span> <b>charger</b></a>
+      <a href="/gp/help">Help</a>
+    `;
+
+    assert.deepStrictEqual(getProductLinks(html), [
+      {
+        asin: "B00EXAMPLE",
+        url: "https://www.amazon.com/dp/B00EXAMPLE",
+        text: "HDMI cable",
+      },
+      {
+        asin: "B01EXAMPLE",
+        url: "/gp/product/B01EXAMPLE",
+        text: "USB charger",
+      },
+    ]);
+  });
+
+  it("skips links without text", () => {
+    const html = `<a href="/dp/B00EXAMPLE"><img src="x.jpg"></a>`;
+    assert.deepStrictEqual(getProductLinks(html), []);
+  });
+});
@@ -6,6 +6,22 @@ type ChildNode = Document["childNodes"][number];
 
 const IGNORE_NODES = ["script", "style", "noscript"];
 
+/**
+ * Matches links to product pages, e.g. /dp/B00EXAMPLE or
+ * /gp/product/B00EXAMPLE. The first group is the ASIN.
+ */
+const PRODUCT_HREF_PATTERN = /\/(?:dp|gp\/product)\/([A-Z0-9]{10})(?=[/?#]|$)/i;
+
+export type ProductLink = {
+  asin: string;
+  url: string;
+
+  /**
+   * The link's text, usually the product name.
+   */
+  text: string;
+};
+
 export function getContentChunks(document: Document | string): string[] {
   const chunks: string[] = [];
 
@@ -37,6 +53,60 @@ export function getContentChunks(document: Document | string): string[] {
   return chunks;
 }
 
+/**
+ * Finds links to product pages. Links without text (e.g. around product
+ * images) are skipped, since we match links to items by name.
+ */
+export function getProductLinks(document: Document | string): ProductLink[] {
+  const links: ProductLink[] = [];
+
+  visitNodes(document, (node, skip) => {
+    if (IGNORE_NODES.includes(node.nodeName)) {
+      skip();
+      return;
+    }
+
+    if (node.nodeName !== "a" || !("attrs" in node)) {
+      return;
+    }
+
+    const href = node.attrs.find((attr) => attr.name === "href")?.value;
+    const m = href == null ? null : PRODUCT_HREF_PATTERN.exec(href);
+    if (!href || !m) {
+      return;
+    }
+
+    const text = getTextContent(node);
+    if (text === "") {
+      return;
+    }
+
+    links.push({
+      asin: m[1].toUpperCase(),
+      // Drop tracking bits like /ref=... and the query string
+      url: href.slice(0, m.index + m[0].length),
+      text,
+    });
+  });
+
+  return links;
+}
+
+function getTextContent(node: ChildNode): string {
+  if (node.nodeName === "#text" && "value" in node) {
+    return node.value.trim().replace(/\s+/g, " ");
+  }
+
+  if (!("childNodes" in node)) {
+    return "";
+  }
+
+  return node.childNodes
+    .map(getTextContent)
+    .filter((text) => text !== "")
+    .join(" ");
+}
+
 export function visitNodes<T>(
   document: Document | string,
   callback: (
@@ -0,0 +1,115 @@
+import assert from "node:assert";
+import { describe, it, mock } from "node:test";
+import type { OrderBuilder } from "../order-builder.ts";
+import {
+  onlineOrder,
+  parseInvoiceHTML,
+  type OrderParserOptions,
+} from "./main.ts";
+
+const DIGITAL_ORDER_HTML = `
+  <html>
+    <body>
+      <h1>Digital Order: D01-1234567-1234567</h1>
+      <table>
+        <tr><td><b>Order Placed:</b> March 5, 2024</td></tr>
+        <tr><td><b>Order Total:</b> $15.98</td></tr>
+      </table>
+      <table>
+        <tr><th>Items Ordered</th><th>Price</th></tr>
+        <tr>
+          <td>
+            <a href="/dp/B0EXAMPLE1">The Example Book</a><br>
+            Kindle Edition<br>
+            By: Jane Author<br>
+            Sold By: Amazon.com Services LLC
+          </td>
+          <td>$9.99</td>
+        </tr>
+        <tr>
+          <td>Example Movie (HD)<br>Sold By: Amazon.com Services LLC</td>
+          <td>$4.99</td>
+        </tr>
+      </table>
+      <table>
+        <tr><td>Item(s) Subtotal: $14.98</td></tr>
+        <tr><td>Total Before Tax: $14.98</td></tr>
+        <tr><td>Tax Collected: $1.00</td></tr>
+        <tr><td>Grand Total: $15.98</td></tr>
+      </table>
+      <table>
+        <tr><td>Payment Method: Visa | Last digits: 1234</td></tr>
+      </table>
+    </body>
+  </html>
+`;
+
+describe("#parseInvoiceHTML", () => {
+  it("parses digital orders", () => {
+    const order = parseInvoiceHTML(DIGITAL_ORDER_HTML);
+
+    assert.deepStrictEqual(order, {
+      id: "D01-1234567-1234567",
+      currency: "$",
+      date: "2024-03-05",
+      digital: true,
+      payments: [
+        {
+          type: "credit_card",
+          cardType: "Visa",
+          last4: "1234",
+          date: "2024-03-05",
+          amount: "$15.98",
+          amountCents: 1598,
+        },
+      ],
+      placedBy: undefined,
+      shipments: [
+        {
+          items: [
+            {
+              name: "The Example Book",
+              price: "$9.99",
+              priceCents: 999,
+              quantity: 1,
+              asin: "B0EXAMPLE1",
+              productURL: "/dp/B0EXAMPLE1",
+              soldBy: "Amazon.com Services LLC",
+            },
+            {
+              name: "Example Movie (HD)",
+              price: "$4.99",
+              priceCents: 499,
+              quantity: 1,
+              soldBy: "Amazon.com Services LLC",
+            },
+          ],
+        },
+      ],
+      shippingCost: undefined,
+      shippingCostCents: undefined,
+      subtotal: "$14.98",
+      subtotalCents: 1498,
+      tax: "$1.00",
+      taxCents: 100,
+      total: "$15.98",
+      totalCents: 1598,
+    });
+  });
+});
+
+describe("onlineOrder", () => {
+  it("only records lines that are just a discount label and amount", () => {
+    const addDiscount = mock.fn();
+    const order = { addDiscount } as unknown as OrderBuilder;
+    const options = {} as OrderParserOptions;
+
+    onlineOrder("Promotion Applied: -$1.00", order, options);
+    onlineOrder("Promotion Applied: -$1.00 on your next order", order, options);
+
+    assert.deepStrictEqual(
+      addDiscount.mock.calls.map((call) => call.arguments),
+      [["promotion", "Promotion Applied", "-$1.00"]],
+    );
+  });
+});
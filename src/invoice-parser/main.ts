@@ -1,31 +1,49 @@
+import { parse as parseHTML } from "parse5";
 import { formatMonetaryAmount, parseMonetaryAmount } from "../money.ts";
 import { OrderBuilder, type OrderBuilderOptions } from "../order-builder.ts";
-import type { Order } from "../types.ts";
-import { getContentChunks } from "./html.ts";
+import type { DiscountType, Order } from "../types.ts";
+import { validateOrder } from "../validation.ts";
+import { getContentChunks, getProductLinks } from "./html.ts";
 import { createParser, newParserState, skipNextToken } from "./parser.ts";
 import {
   AMAZON_ORDER_ID_PATTERN,
   CREDIT_CARD_NAME_PATTERN,
   DATE_MMMM_DD_PATTERN,
   DATE_MMMM_DD_YYYY_PATTERN,
+  DIGITAL_ORDER_ID_PATTERN,
   MONEY_PATTERN,
   TIME_OF_DAY_PATTERN,
 } from "./patterns.ts";
-import type { ParserOptions } from "./types.ts";
+import type { ParserOptions, RegexMatchProcessor } from "./types.ts";
 
 export type OrderParserOptions = ParserOptions<OrderBuilder> &
   OrderBuilderOptions;
 
+const DISCOUNT_LABELS: Record<string, DiscountType> = {
+  "Promotion Applied": "promotion",
+  "Your Coupon Savings": "coupon",
+  "Subscribe & Save": "subscribe_and_save",
+};
+
 export const parseInvoiceHTML = (
   html: string,
   options?: OrderParserOptions,
 ): Order => {
-  const tokens = getContentChunks(html);
+  const document = parseHTML(html);
+  const tokens = getContentChunks(document);
   const orderBuilder = new OrderBuilder(options);
 
   parseInvoiceTokens(tokens, orderBuilder, options);
+  orderBuilder.setProductLinks(getProductLinks(document));
+
+  const order = orderBuilder.build();
+
+  const warnings = validateOrder(order);
+  if (warnings.length > 0) {
+    order.warnings = warnings;
+  }
 
-  return orderBuilder.build();
+  return order;
 };
 
 export const unknown = newParserState(
@@ -47,6 +65,13 @@ export const unknown = newParserState(
       return onlineOrder(token, order, options);
     },
   },
+  {
+    matches: `^Digital Order: (${DIGITAL_ORDER_ID_PATTERN})$`,
+    process: ([_, id], order: OrderBuilder) => {
+      order.setID(id).markDigital();
+      return digitalOrder;
+    },
+  },
 );
 
 export const unknownV2 = newParserState(
@@ -162,6 +187,16 @@ export const onlineOrder = newParserState(
       return true;
     },
   },
+  {
+    matches: `^(${Object.keys(DISCOUNT_LABELS).join("|")}): (${MONEY_PATTERN})$`,
+    process: ([_, label, amount], order: OrderBuilder) => {
+      const [description, type] = Object.entries(DISCOUNT_LABELS).find(
+        ([key]) => key.toLowerCase() === label.toLowerCase(),
+      )!;
+      order.addDiscount(type, description, amount);
+      return true;
+    },
+  },
   {
     equals: "Payment information",
     process: () => onlineOrderPayment,
@@ -252,6 +287,20 @@ export const onlineOrderItems = newParserState(
       return true;
     },
   },
+  {
+    matches: "^Sold by: (.+)$",
+    process: ([_, soldBy], order: OrderBuilder) => {
+      order.setItemSoldBy(soldBy);
+      return true;
+    },
+  },
+  {
+    matches: "^Supplied by: (.+)$",
+    process: ([_, suppliedBy], order: OrderBuilder) => {
+      order.setItemSuppliedBy(suppliedBy);
+      return true;
+    },
+  },
   {
     equals: "Shipping Address: Shipping Speed: Payment information",
     process: (_, order) => {
@@ -287,11 +336,17 @@ export const onlineOrderItemsV2 = newParserState(
   },
   {
     matches: "^Sold by: (.+)$",
-    process: () => true,
+    process: ([_, soldBy], order: OrderBuilder) => {
+      order.setItemSoldBy(soldBy);
+      return true;
+    },
   },
   {
     matches: "^Supplied by: (.+)$",
-    process: () => true,
+    process: ([_, suppliedBy], order: OrderBuilder) => {
+      order.setItemSuppliedBy(suppliedBy);
+      return true;
+    },
   },
   {
     matches: /^Auto-delivered:/,
@@ -328,8 +383,18 @@ export const onlineOrderItemsV2ReturnStarted = newParserState(
     process: () => true,
   },
   {
-    matches: "^(Sold by|Supplied by):",
-    process: () => true,
+    matches: "^Sold by: (.+)$",
+    process: ([_, soldBy], order: OrderBuilder) => {
+      order.setItemSoldBy(soldBy);
+      return true;
+    },
+  },
+  {
+    matches: "^Supplied by: (.+)$",
+    process: ([_, suppliedBy], order: OrderBuilder) => {
+      order.setItemSuppliedBy(suppliedBy);
+      return true;
+    },
   },
   {
     equals: "Delivered",
@@ -343,7 +408,11 @@ export const onlineOrderItemsV2ReturnStarted = newParserState(
     matches: `^(${MONEY_PATTERN})$`,
     process: ([amount], order: OrderBuilder) => {
       // TODO: quantity is not present?
-      order.assumeItemQuantity(1).setItemPrice(amount).finalizeItem();
+      order
+        .assumeItemQuantity(1)
+        .setItemPrice(amount)
+        .finalizeItem()
+        .markLastItemReturnStarted();
       return skipNextToken(onlineOrderItemsV2ReturnStarted);
     },
   },
@@ -419,23 +488,36 @@ export const onlineOrderShipping = newParserState(
   },
 );
 
-const onlineOrderPayment = newParserState(
-  "online_order_payment",
-  {
-    matches: `^(?<ccName>${CREDIT_CARD_NAME_PATTERN}) ending in (?<lastFour>\\d{4}): ${DATE_MMMM_DD_YYYY_PATTERN}: (?<paymentAmount>${MONEY_PATTERN})$`,
-    process: (
-      {
-        groups: { ccName, lastFour, month, day, year, paymentAmount },
-      }: RegExpMatchArray,
-      order: OrderBuilder,
-    ) => {
+/**
+ * A line from the "Credit Card transactions" section, e.g.
+ * "Visa ending in 1234: March 6, 2024: $26.50". Negative amounts are refunds.
+ */
+const creditCardTransaction: RegexMatchProcessor<OrderBuilder> = {
+  matches: `^(?<ccName>${CREDIT_CARD_NAME_PATTERN}) ending in (?<lastFour>\\d{4}): ${DATE_MMMM_DD_YYYY_PATTERN}: (?<paymentAmount>${MONEY_PATTERN})$`,
+  process: (
+    {
+      groups: { ccName, lastFour, month, day, year, paymentAmount },
+    }: RegExpMatchArray,
+    order: OrderBuilder,
+  ) => {
+    if (parseMonetaryAmount(paymentAmount).cents < 0) {
       order
-        .addCreditCardPayment(ccName, lastFour)
-        .setPaymentAmount(paymentAmount)
-        .setPaymentDate(year, month, day);
+        .addCreditCardRefund(ccName, lastFour, paymentAmount)
+        .setRefundDate(year, month, day);
       return true;
-    },
+    }
+
+    order
+      .addCreditCardPayment(ccName, lastFour)
+      .setPaymentAmount(paymentAmount)
+      .setPaymentDate(year, month, day);
+    return true;
   },
+};
+
+const onlineOrderPayment = newParserState(
+  "online_order_payment",
+  creditCardTransaction,
   {
     matches: `^(${CREDIT_CARD_NAME_PATTERN})$`,
     process: ([ccName], order: OrderBuilder) => {
@@ -511,6 +593,102 @@ export const onlineOrderBilling = newParserState(
   },
 );
 
+export const digitalOrder = newParserState(
+  "digital_order",
+  {
+    matches: `^Order Placed: ${DATE_MMMM_DD_YYYY_PATTERN}$`,
+    process: (
+      { groups: { month, day, year } }: RegExpMatchArray,
+      order: OrderBuilder,
+    ) => {
+      order.setDate(year, month, day);
+      return true;
+    },
+  },
+  {
+    equals: "Items Ordered",
+    process: () => digitalOrderItems,
+  },
+  {
+    matches: `^(?:Tax Collected|Estimated tax to be collected): (${MONEY_PATTERN})$`,
+    process: ([_, tax], order: OrderBuilder) => {
+      order.setTax(tax);
+      return true;
+    },
+  },
+  {
+    matches: `^Grand Total: (${MONEY_PATTERN})$`,
+    process: ([_, total], order: OrderBuilder) => {
+      order.setTotal(total);
+      return true;
+    },
+  },
+  {
+    matches: `^Payment Method: (?<ccName>${CREDIT_CARD_NAME_PATTERN}) \\| Last digits: (?<lastFour>\\d{4})$`,
+    process: (
+      { groups: { ccName, lastFour } }: RegExpMatchArray,
+      order: OrderBuilder,
+    ) => {
+      order
+        .addCreditCardPayment(ccName, lastFour)
+        .assumePaymentCoversFullAmount();
+      return true;
+    },
+  },
+  {
+    equals: "Credit Card transactions",
+    process: (_, order) => {
+      order.resetPaymentInformation();
+      return true;
+    },
+  },
+  creditCardTransaction,
+);
+
+/**
+ * Each digital item is its title, followed by a few lines of details
+ * (author, format, seller) and then its price.
+ */
+export const digitalOrderItems = newParserState(
+  "digital_order_items",
+  {
+    equals: "Price",
+    process: () => true,
+  },
+  {
+    matches: `^Item\\(s\\) Subtotal: (${MONEY_PATTERN})$`,
+    process: ([_, subtotal], order: OrderBuilder) => {
+      order.setSubtotal(subtotal);
+      return digitalOrder;
+    },
+  },
+  {
+    matches: ".+",
+    process: ([name], order: OrderBuilder) => {
+      order.setItemName(name).assumeItemQuantity(1);
+      return digitalOrderItemDetails;
+    },
+  },
+);
+
+export const digitalOrderItemDetails = newParserState(
+  "digital_order_item_details",
+  {
+    matches: "^Sold by: (.+)$",
+    process: ([_, soldBy], order: OrderBuilder) => {
+      order.setItemSoldBy(soldBy);
+      return true;
+    },
+  },
+  {
+    matches: `^${MONEY_PATTERN}$`,
+    process: ([price], order: OrderBuilder) => {
+      order.setItemPrice(price).finalizeItem();
+      return digitalOrderItems;
+    },
+  },
+);
+
 export const groceries = newParserState(
   "groceries",
   {
@@ -2,10 +2,21 @@ import assert from "node:assert";
 import fs from "node:fs/promises";
 import path from "node:path";
 import test from "node:test";
+import { Money } from "../money.ts";
+import type { Order } from "../types.ts";
 import { parseInvoiceHTML } from "./main.ts";
 
 const fixtureDir = path.join(import.meta.dirname, "../..", "fixtures");
 
+/**
+ * Order and item fields the parser has learned to fill in since the expected
+ * JSON in fixtures/ was generated. The fixtures are encrypted, so these are
+ * left out of the comparison wherever the expected JSON doesn't have them,
+ * until someone who can decrypt the fixtures regenerates it.
+ */
+const NEW_ORDER_KEYS = ["warnings"];
+const NEW_ITEM_KEYS = ["asin", "productURL", "soldBy", "suppliedBy"];
+
 const fixtureFiles = (await fs.readdir(fixtureDir))
   .filter((file) => file.startsWith("invoice-") && file.endsWith(".html"))
   .map((file) => path.join(fixtureDir, file));
@@ -76,17 +87,36 @@ for (const fixtureFile of fixtureFiles) {
       [],
     );
 
-    const itemSubtotal = items.reduce(
-      (sum, item) => sum + (item.priceCents || 0) * item.quantity,
-      0,
+    const itemSubtotal = Money.sum(
+      items.map((item) =>
+        new Money(item.priceCents || 0, order.currency).multiply(item.quantity),
+      ),
+      order.currency,
     );
 
     assert.strictEqual(
-      itemSubtotal,
+      itemSubtotal.cents,
       order.subtotalCents,
-      `Subtotal should match the sum of item prices, but got ${itemSubtotal} vs ${order.subtotalCents}`,
+      `Subtotal should match the sum of item prices, but got ${itemSubtotal.format()} vs ${order.subtotal}`,
     );
 
+    omitKeysMissingFromExpected(order, expected as Order);
+
     assert.deepStrictEqual(order, expected);
   });
 }
+
+function omitKeysMissingFromExpected(order: Order, expected: Order) {
+  NEW_ORDER_KEYS.filter((key) => !(key in expected)).forEach(
+    (key) => delete order[key],
+  );
+
+  order.shipments.forEach((shipment, i) => {
+    shipment.items.forEach((item, j) => {
+      const expectedItem = expected.shipments?.[i]?.items?.[j] ?? {};
+      NEW_ITEM_KEYS.filter((key) => !(key in expectedItem)).forEach(
+        (key) => delete item[key],
+      );
+    });
+  });
+}
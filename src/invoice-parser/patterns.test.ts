@@ -7,6 +7,12 @@ const tests: [string, string, boolean][] = [
   [MONEY_PATTERN, "123", true],
   [MONEY_PATTERN, "1,234", true],
   [MONEY_PATTERN, "1,234.56", true],
+  [MONEY_PATTERN, "-£5.00", true],
+  [MONEY_PATTERN, "1.234,56 €", true],
+  [MONEY_PATTERN, "EUR 12,34", true],
+  [MONEY_PATTERN, "CDN$ 1,234.56", true],
+  [MONEY_PATTERN, "¥1,234", true],
+  [MONEY_PATTERN, "$", false],
 ];
 
 tests.forEach(([pattern, input, expected]) => {
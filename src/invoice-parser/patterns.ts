@@ -1,6 +1,24 @@
+import { CURRENCY_TOKENS } from "../money.ts";
+
 export const AMAZON_ORDER_ID_PATTERN = "\\d{3}-\\d{7}-\\d{7}";
 
-export const MONEY_PATTERN = "-?\\$?\\d{1,3}(?:,\\d{3})*(?:\\.\\d{2})?";
+/**
+ * Kindle, Prime Video, app and Audible orders have IDs like
+ * "D01-1234567-1234567".
+ */
+export const DIGITAL_ORDER_ID_PATTERN = "D\\d{2}-\\d{7}-\\d{7}";
+
+const CURRENCY_PATTERN = `(?:${CURRENCY_TOKENS.map((token) =>
+  token.replace(/[$]/g, "\\$&"),
+).join("|")})`;
+
+const NUMBER_PATTERN = "(?:\\d{1,3}(?:[,. ]\\d{3})+|\\d+)(?:[.,]\\d{2})?";
+
+/**
+ * Matches amounts in any currency we know about, e.g. "$1,234.56", "-£5.00",
+ * "1.234,56 €" or "EUR 12,34". Contains no capture groups.
+ */
+export const MONEY_PATTERN = `-?(?:${CURRENCY_PATTERN} ?)?-?${NUMBER_PATTERN}(?: ?${CURRENCY_PATTERN})?`;
 
 export const DATE_MMMM_DD_YYYY_PATTERN =
   "(?<month>[a-z]+)\\.? (?<day>\\d{1,2}), (?<year>\\d{4})";
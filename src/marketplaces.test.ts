@@ -0,0 +1,37 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import {
+  getInvoiceURL,
+  getMarketplaceForURL,
+  MARKETPLACES,
+} from "./marketplaces.ts";
+
+describe("#getMarketplaceForURL", () => {
+  it("returns the marketplace for a URL's host", () => {
+    const url = new URL("https://www.amazon.com/gp/css/summary/print.html");
+    assert.equal(getMarketplaceForURL(url), MARKETPLACES.us);
+  });
+
+  it("returns undefined for other hosts", () => {
+    assert.equal(
+      getMarketplaceForURL(new URL("https://example.com")),
+      undefined,
+    );
+  });
+});
+
+describe("#getInvoiceURL", () => {
+  it("returns the printable invoice for an order", () => {
+    assert.equal(
+      getInvoiceURL(MARKETPLACES.us, "123-4567890-1234567").toString(),
+      "https://www.amazon.com/gp/css/summary/print.html?orderID=123-4567890-1234567",
+    );
+  });
+
+  it("returns the order summary for a digital order", () => {
+    assert.equal(
+      getInvoiceURL(MARKETPLACES.us, "D01-1234567-1234567").toString(),
+      "https://www.amazon.com/gp/digital/your-account/order-summary.html?orderID=D01-1234567-1234567",
+    );
+  });
+});
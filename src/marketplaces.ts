@@ -0,0 +1,116 @@
+import { DIGITAL_ORDER_ID_PATTERN } from "./invoice-parser/patterns.ts";
+
+/**
+ * An Amazon storefront, with the paths and selectors the scraper uses on it.
+ */
+export type Marketplace = {
+  id: string;
+  name: string;
+  root: string;
+
+  /**
+   * Path of the "Your Orders" page.
+   */
+  ordersPath: string;
+
+  /**
+   * Name of the <select> (and query string parameter) used to pick a year on
+   * the orders page.
+   */
+  yearFilterParam: string;
+
+  /**
+   * Prefix for values of the year filter, e.g. "year-2024".
+   */
+  yearFilterPrefix: string;
+
+  invoiceLinkSelector: string;
+  nextPageLinkSelector: string;
+
+  /**
+   * Path of the printable invoice for an order, given its ID in the
+   * `orderID` query string parameter. Digital orders use
+   * `digitalInvoicePath` instead.
+   */
+  invoicePath: string;
+
+  /**
+   * Kindle books, Prime Video, apps and Audible purchases are listed on a
+   * separate "Digital Orders" page, filtered by year with
+   * `digitalYearFilterParam` (using the same `yearFilterPrefix`).
+   */
+  digitalOrdersPath: string;
+  digitalOrdersParams: Record<string, string>;
+  digitalYearFilterParam: string;
+  digitalInvoiceLinkSelector: string;
+  digitalInvoicePath: string;
+
+  /**
+   * Path of the Transactions page (Your Payments > Transactions), which
+   * lists every charge to your cards.
+   */
+  transactionsPath: string;
+  transactionsNextPageLinkSelector: string;
+
+  /**
+   * Matches the path of the page Amazon redirects to when you need to sign
+   * in.
+   */
+  signInPathPattern: RegExp;
+};
+
+const US: Marketplace = {
+  id: "us",
+  name: "Amazon.com",
+  root: "https://www.amazon.com",
+  ordersPath: "/your-orders/orders",
+  yearFilterParam: "timeFilter",
+  yearFilterPrefix: "year-",
+  invoiceLinkSelector: 'a[href*="print.html"]',
+  nextPageLinkSelector: "li.a-last a",
+  invoicePath: "/gp/css/summary/print.html",
+  digitalOrdersPath: "/gp/your-account/order-history",
+  digitalOrdersParams: { digitalOrders: "1", unifiedOrders: "0" },
+  digitalYearFilterParam: "orderFilter",
+  digitalInvoiceLinkSelector:
+    'a[href*="/gp/digital/your-account/order-summary.html"]',
+  digitalInvoicePath: "/gp/digital/your-account/order-summary.html",
+  transactionsPath: "/cpe/yourpayments/transactions",
+  transactionsNextPageLinkSelector: 'a[href*="nextPageKey"]',
+  signInPathPattern: /^\/ap\/signin/,
+};
+
+/**
+ * Marketplaces the scraper and invoice parser have been checked against.
+ * Only add a site once its order history, invoices and sign-in page have been
+ * verified, overriding whichever of US's paths and selectors differ.
+ */
+export const MARKETPLACES: Record<string, Marketplace> = {
+  us: US,
+};
+
+export const DEFAULT_MARKETPLACE = US;
+
+/**
+ * @returns The marketplace a URL belongs to, or undefined if it isn't one we
+ *          know about.
+ */
+export function getMarketplaceForURL(url: URL): Marketplace | undefined {
+  return Object.values(MARKETPLACES).find(
+    (m) => new URL(m.root).hostname === url.hostname,
+  );
+}
+
+/**
+ * @returns The URL of the invoice for an order, so it can be scraped without
+ *          finding it in the order history first.
+ */
+export function getInvoiceURL(marketplace: Marketplace, orderID: string): URL {
+  const digital = new RegExp(`^${DIGITAL_ORDER_ID_PATTERN}$`).test(orderID);
+  const url = new URL(
+    digital ? marketplace.digitalInvoicePath : marketplace.invoicePath,
+    marketplace.root,
+  );
+  url.searchParams.set("orderID", orderID);
+  return url;
+}
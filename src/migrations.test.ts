@@ -0,0 +1,130 @@
+import assert from "node:assert";
+import sqlite from "node:sqlite";
+import { describe, it } from "node:test";
+import {
+  getSchemaVersion,
+  LATEST_SCHEMA_VERSION,
+  migrate,
+  MIGRATIONS,
+} from "./migrations.ts";
+import { decompressPageBody } from "./page-bodies.ts";
+
+describe("#migrate", () => {
+  it("creates a new database at the latest version", () => {
+    const db = new sqlite.DatabaseSync(":memory:");
+    migrate(db);
+    assert.equal(getSchemaVersion(db), LATEST_SCHEMA_VERSION);
+  });
+
+  it("treats an unversioned database with an orders table as version 1", () => {
+    const db = new sqlite.DatabaseSync(":memory:");
+    MIGRATIONS[0].up(db);
+    assert.equal(getSchemaVersion(db), 1);
+
+    migrate(db);
+
+    assert.equal(getSchemaVersion(db), LATEST_SCHEMA_VERSION);
+    const columns = db
+      .prepare("SELECT name FROM pragma_table_info('orders')")
+      .all()
+      .map((row: any) => row.name);
+    assert.ok(columns.includes("placed_by"));
+  });
+
+  it("records the marketplace of existing orders", () => {
+    const db = new sqlite.DatabaseSync(":memory:");
+    migrate(db, MIGRATIONS.slice(0, 3));
+    const insert = db.prepare(
+      "INSERT INTO orders (id, date, user, currency, invoice_url, invoice_html, subtotal, subtotal_cents, tax, tax_cents, total, total_cents) VALUES (?, '2024-01-01', 'default', '$', ?, '', '', 0, '', 0, '', 0)",
+    );
+    insert.run("1", "https://www.amazon.com/gp/css/summary/print.html");
+
+    migrate(db);
+
+    const rows = db
+      .prepare("SELECT id, marketplace FROM orders ORDER BY id")
+      .all()
+      .map((row: any) => [row.id, row.marketplace]);
+    assert.deepStrictEqual(rows, [["1", "us"]]);
+  });
+
+  it("backfills the item search index", () => {
+    const db = new sqlite.DatabaseSync(":memory:");
+    migrate(db, MIGRATIONS.slice(0, 2));
+    db.prepare(
+      "INSERT INTO order_items (order_id, shipment_id, name, price, price_cents, quantity) VALUES (?, ?, ?, ?, ?, ?)",
+    ).run("123", 1, "HDMI cable", "$5.00", 500, 1);
+
+    migrate(db);
+
+    const rows = db
+      .prepare(
+        "SELECT order_id FROM order_items_fts WHERE order_items_fts MATCH ?",
+      )
+      .all("hdmi");
+    assert.deepStrictEqual(
+      rows.map((row: any) => row.order_id),
+      ["123"],
+    );
+  });
+
+  it("moves cached pages and invoices into page_bodies", () => {
+    const db = new sqlite.DatabaseSync(":memory:");
+    migrate(db, MIGRATIONS.slice(0, 12));
+    db.prepare(
+      "INSERT INTO orders (id, date, user, currency, invoice_url, invoice_html, subtotal, subtotal_cents, tax, tax_cents, total, total_cents) VALUES ('1', '2024-01-01', 'default', '$', 'https://www.amazon.com/', ?, '', 0, '', 0, '', 0)",
+    ).run("<html>invoice</html>");
+    const insertCache = db.prepare(
+      "INSERT INTO cache (key, value, updated_at) VALUES (?, ?, '2024-01-01')",
+    );
+    insertCache.run("a", "<html>invoice</html>");
+    insertCache.run("b", "<html>list</html>");
+
+    migrate(db);
+
+    const bodies = db
+      .prepare(
+        "SELECT cache.key, page_bodies.body FROM cache JOIN page_bodies ON page_bodies.hash = cache.body_hash UNION ALL SELECT orders.id, page_bodies.body FROM orders JOIN page_bodies ON page_bodies.hash = orders.invoice_hash ORDER BY 1",
+      )
+      .all()
+      .map((row: any) => [row.key, decompressPageBody(row.body)]);
+    assert.deepStrictEqual(bodies, [
+      ["1", "<html>invoice</html>"],
+      ["a", "<html>invoice</html>"],
+      ["b", "<html>list</html>"],
+    ]);
+    const row = db
+      .prepare("SELECT COUNT(*) AS count FROM page_bodies")
+      .get() as any;
+    assert.equal(row.count, 2);
+  });
+
+  it("refuses to open a database newer than the code", () => {
+    const db = new sqlite.DatabaseSync(":memory:");
+    migrate(db);
+    db.prepare("UPDATE schema_version SET version = ?").run(
+      LATEST_SCHEMA_VERSION + 1,
+    );
+
+    assert.throws(() => migrate(db), /newer than the latest version/);
+  });
+
+  it("rolls back every pending migration when one fails", () => {
+    const db = new sqlite.DatabaseSync(":memory:");
+
+    assert.throws(() =>
+      migrate(db, [
+        MIGRATIONS[0],
+        {
+          version: 2,
+          description: "Broken",
+          up(db) {
+            db.exec("ALTER TABLE no_such_table ADD COLUMN foo TEXT");
+          },
+        },
+      ]),
+    );
+
+    assert.equal(getSchemaVersion(db), 0);
+  });
+});
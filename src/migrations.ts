@@ -0,0 +1,382 @@
+import sqlite from "node:sqlite";
+import { DEFAULT_MARKETPLACE, getMarketplaceForURL } from "./marketplaces.ts";
+import { savePageBody } from "./page-bodies.ts";
+
+export type Migration = {
+  version: number;
+  description: string;
+  up: (db: sqlite.DatabaseSync) => void;
+};
+
+/**
+ * Migrations are applied in order. Never edit a migration once it has been
+ * released--add a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create initial tables",
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS orders (
+          id TEXT PRIMARY KEY,
+          date TEXT NOT NULL,
+          user TEXT NOT NULL,
+          currency TEXT NOT NULL,
+          invoice_url TEXT NOT NULL,
+          invoice_html TEXT NOT NULL,
+          shipping TEXT NULL,
+          shipping_cents INTEGER NULL,
+          subtotal TEXT NOT NULL,
+          subtotal_cents INTEGER NOT NULL,
+          tax TEXT NOT NULL,
+          tax_cents INTEGER NOT NULL,
+          total TEXT NOT NULL,
+          total_cents INTEGER NOT NULL,
+          complete INTEGER NOT NULL DEFAULT 0
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS payments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          order_id TEXT NOT NULL,
+          date TEXT NOT NULL,
+          type TEXT NOT NULL,
+          card_type TEXT NULL,
+          last4 TEXT NULL,
+          amount TEXT NOT NULL,
+          amount_cents INTEGER NOT NULL
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS shipments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          order_id TEXT NOT NULL,
+          date TEXT NULL,
+          name TEXT NOT NULL,
+          address TEXT NOT NULL,
+          city TEXT NOT NULL,
+          state TEXT NOT NULL,
+          zip TEXT NOT NULL,
+          country TEXT NOT NULL
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS order_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          order_id TEXT NOT NULL,
+          shipment_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          price TEXT NOT NULL,
+          price_cents INTEGER NOT NULL,
+          quantity INTEGER NOT NULL
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS cache (
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (key)
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: "Store Order.placedBy and ShippingAddress.name2",
+    up(db) {
+      db.exec("ALTER TABLE orders ADD COLUMN placed_by TEXT NULL");
+      db.exec("ALTER TABLE shipments ADD COLUMN name2 TEXT NULL");
+    },
+  },
+  {
+    version: 3,
+    description: "Add full-text search index for item names",
+    up(db) {
+      db.exec(`
+        CREATE VIRTUAL TABLE order_items_fts USING fts5(
+          name,
+          order_id UNINDEXED,
+          item_id UNINDEXED,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+      `);
+
+      db.exec(`
+        INSERT INTO order_items_fts (name, order_id, item_id)
+        SELECT name, order_id, id FROM order_items
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: "Record which marketplace each order came from",
+    up(db) {
+      db.exec(
+        `ALTER TABLE orders ADD COLUMN marketplace TEXT NOT NULL DEFAULT '${DEFAULT_MARKETPLACE.id}'`,
+      );
+
+      const update = db.prepare(
+        "UPDATE orders SET marketplace = ? WHERE id = ?",
+      );
+
+      db.prepare("SELECT id, invoice_url FROM orders")
+        .all()
+        .forEach((row: any) => {
+          const marketplace = URL.canParse(row.invoice_url)
+            ? getMarketplaceForURL(new URL(row.invoice_url))
+            : undefined;
+
+          if (marketplace != null) {
+            update.run(marketplace.id, row.id);
+          }
+        });
+    },
+  },
+  {
+    version: 5,
+    description: "Store OrderItem.asin and OrderItem.productURL",
+    up(db) {
+      db.exec("ALTER TABLE order_items ADD COLUMN asin TEXT NULL");
+      db.exec("ALTER TABLE order_items ADD COLUMN product_url TEXT NULL");
+    },
+  },
+  {
+    version: 6,
+    description: "Store OrderItem.soldBy and OrderItem.suppliedBy",
+    up(db) {
+      db.exec("ALTER TABLE order_items ADD COLUMN sold_by TEXT NULL");
+      db.exec("ALTER TABLE order_items ADD COLUMN supplied_by TEXT NULL");
+    },
+  },
+  {
+    version: 7,
+    description: "Add refunds table",
+    up(db) {
+      db.exec(`
+        CREATE TABLE refunds (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          order_id TEXT NOT NULL,
+          status TEXT NOT NULL,
+          item_name TEXT NULL,
+          date TEXT NULL,
+          amount TEXT NOT NULL,
+          amount_cents INTEGER NOT NULL,
+          payment_type TEXT NULL,
+          card_type TEXT NULL,
+          last4 TEXT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: "Add order_discounts table",
+    up(db) {
+      db.exec(`
+        CREATE TABLE order_discounts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          order_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          description TEXT NOT NULL,
+          amount TEXT NOT NULL,
+          amount_cents INTEGER NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: "Add order_warnings table",
+    up(db) {
+      db.exec(`
+        CREATE TABLE order_warnings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          order_id TEXT NOT NULL,
+          code TEXT NOT NULL,
+          message TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: "Store Order.digital",
+    up(db) {
+      db.exec(
+        "ALTER TABLE orders ADD COLUMN digital INTEGER NOT NULL DEFAULT 0",
+      );
+    },
+  },
+  {
+    version: 11,
+    description: "Add transactions and transaction_orders tables",
+    up(db) {
+      db.exec(`
+        CREATE TABLE transactions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user TEXT NOT NULL,
+          date TEXT NOT NULL,
+          description TEXT NULL,
+          card_type TEXT NULL,
+          last4 TEXT NULL,
+          amount TEXT NOT NULL,
+          amount_cents INTEGER NOT NULL
+        );
+      `);
+
+      db.exec(`
+        CREATE TABLE transaction_orders (
+          transaction_id INTEGER NOT NULL,
+          order_id TEXT NOT NULL,
+          PRIMARY KEY (transaction_id, order_id)
+        );
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: "Add scrape_progress table",
+    up(db) {
+      db.exec(`
+        CREATE TABLE scrape_progress (
+          user TEXT NOT NULL,
+          marketplace TEXT NOT NULL,
+          year INTEGER NOT NULL,
+          list TEXT NOT NULL,
+          page_url TEXT NOT NULL,
+          page_index INTEGER NOT NULL,
+          last_invoice_url TEXT NULL,
+          orders_scraped INTEGER NOT NULL,
+          complete INTEGER NOT NULL DEFAULT 0,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (user, marketplace, year)
+        );
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: "Store cached pages and invoices compressed in page_bodies",
+    up(db) {
+      db.exec(`
+        CREATE TABLE page_bodies (
+          hash TEXT PRIMARY KEY,
+          body BLOB NOT NULL,
+          size INTEGER NOT NULL
+        );
+      `);
+
+      db.exec("ALTER TABLE cache ADD COLUMN body_hash TEXT NULL");
+      db.exec("ALTER TABLE orders ADD COLUMN invoice_hash TEXT NULL");
+
+      // Load one body at a time--together they can be too big for memory
+      const moveBodies = (
+        table: string,
+        key: string,
+        from: string,
+        to: string,
+      ) => {
+        const select = db.prepare(
+          `SELECT ${from} AS body FROM ${table} WHERE ${key} = ?`,
+        );
+        const update = db.prepare(
+          `UPDATE ${table} SET ${to} = ? WHERE ${key} = ?`,
+        );
+
+        db.prepare(`SELECT ${key} AS id FROM ${table}`)
+          .all()
+          .forEach(({ id }: any) => {
+            const { body } = select.get(id) as any;
+            update.run(savePageBody(db, body ?? ""), id);
+          });
+      };
+
+      moveBodies("cache", "key", "value", "body_hash");
+      moveBodies("orders", "id", "invoice_html", "invoice_hash");
+
+      db.exec("ALTER TABLE cache DROP COLUMN value");
+      db.exec("ALTER TABLE orders DROP COLUMN invoice_html");
+
+      db.exec("CREATE INDEX cache_body_hash ON cache (body_hash)");
+      db.exec("CREATE INDEX orders_invoice_hash ON orders (invoice_hash)");
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Brings the database up to LATEST_SCHEMA_VERSION. All pending migrations
+ * are applied in a single transaction.
+ */
+export function migrate(
+  db: sqlite.DatabaseSync,
+  migrations: Migration[] = MIGRATIONS,
+): void {
+  const latestVersion = migrations[migrations.length - 1]?.version ?? 0;
+  const currentVersion = getSchemaVersion(db);
+
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than the latest version this code supports (${latestVersion}). Please upgrade amazon-order-scraper.`,
+    );
+  }
+
+  const pendingMigrations = migrations.filter(
+    (m) => m.version > currentVersion,
+  );
+
+  if (pendingMigrations.length === 0) {
+    return;
+  }
+
+  db.exec("BEGIN TRANSACTION");
+  try {
+    db.exec(
+      "CREATE TABLE IF NOT EXISTS schema_version (version INTEGER NOT NULL)",
+    );
+
+    pendingMigrations.forEach((migration) => {
+      migration.up(db);
+    });
+
+    db.exec("DELETE FROM schema_version");
+    db.prepare("INSERT INTO schema_version (version) VALUES (?)").run(
+      latestVersion,
+    );
+
+    db.exec("COMMIT");
+  } catch (err) {
+    db.exec("ROLLBACK");
+    throw err;
+  }
+}
+
+export function getSchemaVersion(db: sqlite.DatabaseSync): number {
+  if (tableExists(db, "schema_version")) {
+    const row = db
+      .prepare("SELECT MAX(version) AS version FROM schema_version")
+      .get() as any;
+
+    if (row?.version != null) {
+      return row.version;
+    }
+  }
+
+  // Databases created before schema versioning was introduced have the
+  // version 1 tables but no schema_version table.
+  return tableExists(db, "orders") ? 1 : 0;
+}
+
+function tableExists(db: sqlite.DatabaseSync, name: string): boolean {
+  const row = db
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?")
+    .get(name);
+  return row != null;
+}
@@ -1,6 +1,12 @@
 import { describe, it } from "node:test";
 import { expect } from "playwright/test";
-import { parseMonetaryAmount } from "./money.ts";
+import {
+  CurrencyMismatchError,
+  formatDecimalAmount,
+  formatMonetaryAmount,
+  Money,
+  parseMonetaryAmount,
+} from "./money.ts";
 
 describe("#parseMonetaryAmount", () => {
   const TESTS = [
@@ -12,6 +18,46 @@ describe("#parseMonetaryAmount", () => {
         cents: -1054,
       },
     },
+    {
+      input: "-$0.50",
+      expected: { currency: "$", value: "-$0.50", cents: -50 },
+    },
+    {
+      input: "$1,234.56",
+      expected: { currency: "$", value: "$1,234.56", cents: 123456 },
+    },
+    {
+      input: "1,234",
+      expected: { currency: undefined, value: "1,234", cents: 123400 },
+    },
+    {
+      input: "1.234,56 €",
+      expected: { currency: "€", value: "1.234,56 €", cents: 123456 },
+    },
+    {
+      input: "EUR 12,34",
+      expected: { currency: "€", value: "EUR 12,34", cents: 1234 },
+    },
+    {
+      input: "-£5.00",
+      expected: { currency: "£", value: "-£5.00", cents: -500 },
+    },
+    {
+      input: "CDN$ 1,234.56",
+      expected: { currency: "CA$", value: "CDN$ 1,234.56", cents: 123456 },
+    },
+    {
+      input: "CA$12.34",
+      expected: { currency: "CA$", value: "CA$12.34", cents: 1234 },
+    },
+    {
+      input: "¥1,234",
+      expected: { currency: "¥", value: "¥1,234", cents: 1234 },
+    },
+    {
+      input: "1\u202f234,56\u00a0€",
+      expected: { currency: "€", value: "1\u202f234,56\u00a0€", cents: 123456 },
+    },
   ];
 
   TESTS.forEach(({ input, expected }) => {
@@ -21,3 +67,125 @@ describe("#parseMonetaryAmount", () => {
     });
   });
 });
+
+describe("#parseMonetaryAmount with invalid input", () => {
+  ["", "$", "12.345.6,7", "£5 €", "abc"].forEach((input) => {
+    it(`should reject "${input}"`, () => {
+      expect(() => parseMonetaryAmount(input)).toThrow(
+        /Invalid monetary amount/,
+      );
+    });
+  });
+});
+
+describe("#formatMonetaryAmount", () => {
+  const TESTS: [{ currency?: string; cents: number }, string][] = [
+    [{ currency: "$", cents: 123456 }, "$1234.56"],
+    [{ currency: "$", cents: -50 }, "-$0.50"],
+    [{ currency: "€", cents: 5 }, "€0.05"],
+    [{ currency: "¥", cents: 1234 }, "¥1234"],
+    [{ cents: 1000 }, "10.00"],
+  ];
+
+  TESTS.forEach(([input, expected]) => {
+    it(`should format ${JSON.stringify(input)} as "${expected}"`, () => {
+      expect(formatMonetaryAmount(input)).toEqual(expected);
+    });
+  });
+
+  ["-$0.50", "1.234,56 €", "¥1,234", "CDN$ 5.00"].forEach((input) => {
+    it(`should round-trip "${input}"`, () => {
+      const parsed = parseMonetaryAmount(input);
+      expect(parseMonetaryAmount(formatMonetaryAmount(parsed))).toMatchObject({
+        currency: parsed.currency,
+        cents: parsed.cents,
+      });
+    });
+  });
+});
+
+describe("#formatDecimalAmount", () => {
+  const TESTS: [number, string][] = [
+    [123456, "1234.56"],
+    [5, "0.05"],
+    [-50, "-0.50"],
+    [-1054, "-10.54"],
+  ];
+
+  it("should use the currency's decimal places", () => {
+    expect(formatDecimalAmount(1234, "¥")).toEqual("1234");
+  });
+
+  TESTS.forEach(([input, expected]) => {
+    it(`should format ${input} as "${expected}"`, () => {
+      expect(formatDecimalAmount(input)).toEqual(expected);
+    });
+  });
+});
+
+describe("Money", () => {
+  it("adds and subtracts", () => {
+    const total = Money.parse("$26.50");
+    const subtotal = Money.parse("$25.00");
+    expect(total.subtract(subtotal).format()).toEqual("$1.50");
+    expect(subtotal.add(Money.parse("$1.50")).equals(total)).toBe(true);
+  });
+
+  it("handles negative amounts", () => {
+    const amount = Money.parse("$0.25").subtract(Money.parse("$0.75"));
+    expect(amount.cents).toEqual(-50);
+    expect(amount.isNegative()).toBe(true);
+    expect(amount.format()).toEqual("-$0.50");
+    expect(amount.negate().format()).toEqual("$0.50");
+  });
+
+  it("nets refunds against a charge", () => {
+    const charge = Money.parse("$26.50");
+    const refunds = [Money.parse("-$10.00"), Money.parse("-$16.50")];
+    const net = charge.add(Money.sum(refunds, "$"));
+    expect(net.isZero()).toBe(true);
+    expect(net.format()).toEqual("$0.00");
+  });
+
+  it("multiplies by a quantity", () => {
+    expect(Money.parse("€3.33").multiply(3).format()).toEqual("€9.99");
+  });
+
+  it("rounds half away from zero when multiplying", () => {
+    expect(new Money(5, "$").multiply(0.5).cents).toEqual(3);
+    expect(new Money(-5, "$").multiply(0.5).cents).toEqual(-3);
+    expect(new Money(1000, "$").multiply(0.0825).cents).toEqual(83);
+  });
+
+  it("drops fractions of a cent when dividing", () => {
+    expect(Money.parse("$10.00").divide(3).format()).toEqual("$3.33");
+    expect(() => Money.parse("$10.00").divide(0)).toThrow();
+  });
+
+  it("compares amounts", () => {
+    const small = Money.parse("£1.00");
+    const large = Money.parse("£2.00");
+    expect(small.compare(large)).toBeLessThan(0);
+    expect(large.compare(small)).toBeGreaterThan(0);
+    expect(small.compare(Money.parse("£1"))).toEqual(0);
+  });
+
+  it("throws when currencies don't match", () => {
+    expect(() => Money.parse("$1.00").add(Money.parse("€1.00"))).toThrow(
+      CurrencyMismatchError,
+    );
+    expect(() => Money.parse("$1.00").compare(Money.parse("£1.00"))).toThrow(
+      CurrencyMismatchError,
+    );
+  });
+
+  it("treats amounts without a currency as compatible with any currency", () => {
+    const sum = Money.parse("€1.00").add(Money.parse("2.50"));
+    expect(sum.format()).toEqual("€3.50");
+    expect(Money.parse("1.00").equals(Money.parse("$1.00"))).toBe(true);
+  });
+
+  it("only allows whole cents", () => {
+    expect(() => new Money(1.5, "$")).toThrow(/whole number of cents/);
+  });
+});
@@ -1,9 +1,215 @@
+export type Currency = {
+  code: string;
+
+  /**
+   * The symbol we store in Order.currency and use when formatting.
+   */
+  symbol: string;
+
+  /**
+   * Other ways the currency is written on invoices.
+   */
+  aliases: string[];
+
+  /**
+   * Digits after the decimal point. Amounts are stored as an integer number
+   * of the smallest unit (the `*Cents` fields), so for zero-decimal
+   * currencies like JPY, "cents" are whole yen.
+   */
+  decimals: number;
+};
+
 type MonetaryAmount = {
   currency?: string;
   value: string;
   cents: number;
 };
 
+export const CURRENCIES: Currency[] = [
+  { code: "USD", symbol: "$", aliases: ["US$"], decimals: 2 },
+  { code: "CAD", symbol: "CA$", aliases: ["CDN$", "C$"], decimals: 2 },
+  { code: "AUD", symbol: "A$", aliases: ["AU$"], decimals: 2 },
+  { code: "GBP", symbol: "£", aliases: [], decimals: 2 },
+  { code: "EUR", symbol: "€", aliases: [], decimals: 2 },
+  { code: "JPY", symbol: "¥", aliases: ["￥"], decimals: 0 },
+  { code: "INR", symbol: "₹", aliases: [], decimals: 2 },
+];
+
+/**
+ * Every symbol, alias and code, longest first so that "CA$" is matched
+ * before "$".
+ */
+export const CURRENCY_TOKENS: string[] = CURRENCIES.flatMap((c) => [
+  c.symbol,
+  c.code,
+  ...c.aliases,
+]).sort((a, b) => b.length - a.length);
+
+const DEFAULT_DECIMALS = 2;
+
+const GROUPING_SEPARATORS = /['\u00a0\u202f]/g;
+
+/**
+ * @returns The currency with the given symbol, alias or ISO code.
+ */
+export function getCurrency(symbolOrCode: string): Currency | undefined {
+  const token = symbolOrCode.trim().toUpperCase();
+  return CURRENCIES.find(
+    (c) =>
+      c.code === token ||
+      c.symbol.toUpperCase() === token ||
+      c.aliases.some((a) => a.toUpperCase() === token),
+  );
+}
+
+export class CurrencyMismatchError extends Error {
+  constructor(a: string | undefined, b: string | undefined) {
+    super(`Currency mismatch: ${a} vs ${b}`);
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * An exact amount of money, held as an integer number of the currency's
+ * smallest unit. An undefined currency (e.g. from parsing "12.34") is
+ * compatible with every currency.
+ */
+export class Money {
+  readonly cents: number;
+  readonly currency: string | undefined;
+
+  constructor(cents: number, currency?: string) {
+    if (!Number.isSafeInteger(cents)) {
+      throw new Error(`Money must be a whole number of cents: ${cents}`);
+    }
+
+    // Avoid -0, which formats as "-$0.00"
+    this.cents = cents === 0 ? 0 : cents;
+    this.currency = currency;
+  }
+
+  static parse(amount: string | number): Money {
+    const { cents, currency } = parseMonetaryAmount(amount);
+    return new Money(cents, currency);
+  }
+
+  static zero(currency?: string): Money {
+    return new Money(0, currency);
+  }
+
+  /**
+   * Adds up `amounts`. An empty list sums to zero in `currency`.
+   */
+  static sum(amounts: Money[], currency?: string): Money {
+    return amounts.reduce(
+      (sum, amount) => sum.add(amount),
+      Money.zero(currency),
+    );
+  }
+
+  add(other: Money): Money {
+    return new Money(this.cents + other.cents, this.currencyWith(other));
+  }
+
+  subtract(other: Money): Money {
+    return new Money(this.cents - other.cents, this.currencyWith(other));
+  }
+
+  /**
+   * Multiplies by `factor`, rounding half away from zero.
+   */
+  multiply(factor: number): Money {
+    const cents = this.cents * factor;
+    return new Money(
+      Math.sign(cents) * Math.round(Math.abs(cents)),
+      this.currency,
+    );
+  }
+
+  /**
+   * Divides by `divisor`, dropping any fraction of a cent (so that, e.g., a
+   * line total split across a quantity never adds up to more than it was).
+   */
+  divide(divisor: number): Money {
+    if (divisor === 0) {
+      throw new Error("Cannot divide money by zero");
+    }
+    return new Money(Math.trunc(this.cents / divisor), this.currency);
+  }
+
+  negate(): Money {
+    return new Money(-this.cents, this.currency);
+  }
+
+  /**
+   * @returns A negative number if this is less than `other`, positive if
+   *          greater, and 0 if equal.
+   */
+  compare(other: Money): number {
+    this.currencyWith(other);
+    return Math.sign(this.cents - other.cents);
+  }
+
+  equals(other: Money): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isNegative(): boolean {
+    return this.cents < 0;
+  }
+
+  isZero(): boolean {
+    return this.cents === 0;
+  }
+
+  /**
+   * Formats as e.g. "$1234.56", "-€0.50" or "¥1234".
+   */
+  format(): string {
+    const sign = this.cents < 0 ? "-" : "";
+    return `${sign}${this.currency ?? ""}${this.formatUnsigned()}`;
+  }
+
+  /**
+   * Formats as a plain decimal number (e.g. "-1234.50"), suitable for
+   * spreadsheets.
+   */
+  formatDecimal(): string {
+    const sign = this.cents < 0 ? "-" : "";
+    return `${sign}${this.formatUnsigned()}`;
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  private formatUnsigned(): string {
+    const decimals =
+      (this.currency == null
+        ? undefined
+        : getCurrency(this.currency)?.decimals) ?? DEFAULT_DECIMALS;
+    const factor = 10 ** decimals;
+    const cents = Math.abs(this.cents);
+    const whole = Math.floor(cents / factor);
+    const fraction = cents % factor;
+
+    return decimals === 0
+      ? String(whole)
+      : `${whole}.${fraction.toString().padStart(decimals, "0")}`;
+  }
+
+  private currencyWith(other: Money): string | undefined {
+    if (
+      this.currency != null &&
+      other.currency != null &&
+      this.currency !== other.currency
+    ) {
+      throw new CurrencyMismatchError(this.currency, other.currency);
+    }
+    return this.currency ?? other.currency;
+  }
+}
+
 export function monetaryAmountsEqual(
   a: string | number | MonetaryAmount,
   b: string | number | MonetaryAmount,
@@ -14,31 +220,77 @@ export function monetaryAmountsEqual(
   return a.cents === b.cents && a.currency === b.currency;
 }
 
-export function parseMonetaryAmount(amount: string | number) {
-  const amountAsString = String(amount).trim();
-  const currency = amountAsString.includes("$") ? "$" : undefined;
+/**
+ * Parses amounts like "$1,234.56", "-£5.00", "1.234,56 €", "EUR 12,34" and
+ * "¥1,234". The currency can come before or after the number. `currency` is
+ * the canonical symbol for the currency (see CURRENCIES), or undefined when
+ * the amount doesn't include one.
+ */
+export function parseMonetaryAmount(amount: string | number): MonetaryAmount {
+  const value = String(amount).trim();
+  let rest = value.replace(GROUPING_SEPARATORS, " ");
+  let negative = false;
+  let currency: Currency | undefined;
 
-  const parts = amountAsString
-    .replace(/[\$,]/g, "")
-    .split(".")
-    .map((part) => {
-      if (part === "") {
-        return 0;
-      }
-      return parseInt(part, 10);
-    });
+  const takeSign = () => {
+    if (rest.startsWith("-")) {
+      negative = !negative;
+      rest = rest.slice(1).trim();
+    }
+  };
+
+  const takeCurrency = (where: "start" | "end") => {
+    const token = CURRENCY_TOKENS.find((t) =>
+      where === "start"
+        ? rest.toUpperCase().startsWith(t.toUpperCase())
+        : rest.toUpperCase().endsWith(t.toUpperCase()),
+    );
+
+    if (token == null) {
+      return;
+    }
 
-  if (parts.length > 2) {
+    const found = getCurrency(token)!;
+    if (currency != null && currency !== found) {
+      throw new Error(`Invalid monetary amount: ${amount}`);
+    }
+
+    currency = found;
+    rest = (
+      where === "start"
+        ? rest.slice(token.length)
+        : rest.slice(0, rest.length - token.length)
+    ).trim();
+  };
+
+  takeSign();
+  takeCurrency("start");
+  takeSign();
+  takeCurrency("end");
+
+  const decimals = currency?.decimals ?? DEFAULT_DECIMALS;
+  const { whole, fraction } = splitDecimal(rest, decimals);
+
+  if (
+    !/^\d*$/.test(whole) ||
+    !/^\d*$/.test(fraction) ||
+    whole + fraction === ""
+  ) {
+    throw new Error(`Invalid monetary amount: ${amount}`);
+  }
+
+  if (fraction.length > decimals) {
     throw new Error(`Invalid monetary amount: ${amount}`);
   }
 
-  const sign = parts[0] < 0 ? -1 : 1;
-  const cents = parts[0] * 100 + (parts[1] || 0) * sign;
+  const cents =
+    parseInt(whole || "0", 10) * 10 ** decimals +
+    parseInt(fraction.padEnd(decimals, "0") || "0", 10);
 
   return {
-    currency,
-    value: amountAsString,
-    cents,
+    currency: currency?.symbol,
+    value,
+    cents: negative && cents !== 0 ? -cents : cents,
   };
 }
 
@@ -48,8 +300,54 @@ export function formatMonetaryAmount(
   const { currency, cents } =
     typeof amount === "object" ? amount : parseMonetaryAmount(amount);
 
-  const whole = Math.floor(cents / 100);
-  const fraction = cents - whole * 100;
+  return new Money(cents, currency).format();
+}
+
+/**
+ * Formats an amount as a plain decimal number (e.g. "-1234.50"), suitable for
+ * spreadsheets.
+ */
+export function formatDecimalAmount(cents: number, currency?: string): string {
+  return new Money(cents, currency).formatDecimal();
+}
+
+/**
+ * Works out which of "." and "," (if either) is the decimal separator.
+ */
+function splitDecimal(
+  number: string,
+  decimals: number,
+): { whole: string; fraction: string } {
+  const removeGrouping = (s: string) =>
+    /^\d{1,3}(?:([., ])\d{3})?(?:\1\d{3})*$/.test(s)
+      ? s.replace(/[., ]/g, "")
+      : s;
 
-  return `${currency}${whole}.${fraction.toString().padStart(2, "0")}`;
+  const lastSeparator = Math.max(
+    number.lastIndexOf("."),
+    number.lastIndexOf(","),
+  );
+
+  if (decimals === 0 || lastSeparator < 0) {
+    return { whole: removeGrouping(number), fraction: "" };
+  }
+
+  const separator = number[lastSeparator];
+  const otherSeparator = separator === "." ? "," : ".";
+  const digitsAfter = number.length - lastSeparator - 1;
+
+  // "1,234" and "1.234.567" are grouped whole numbers, but in "1.234,56" the
+  // last separator must be the decimal point.
+  const isGrouping =
+    !number.includes(otherSeparator) &&
+    (digitsAfter === 3 || number.indexOf(separator) !== lastSeparator);
+
+  if (isGrouping) {
+    return { whole: removeGrouping(number), fraction: "" };
+  }
+
+  return {
+    whole: removeGrouping(number.slice(0, lastSeparator)),
+    fraction: number.slice(lastSeparator + 1),
+  };
 }
@@ -0,0 +1,251 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { CurrencyMismatchError } from "./money.ts";
+import { OrderBuilder } from "./order-builder.ts";
+
+function createOrder(): OrderBuilder {
+  return new OrderBuilder()
+    .setID("123-4567890-1234567")
+    .setDate(2024, 3, 5)
+    .setTotal("$26.50")
+    .setSubtotal("$25.00")
+    .setTax("$1.50")
+    .nothingWillBeShipped()
+    .addCreditCardPayment("Visa", "1234")
+    .setPaymentAmount("$26.50")
+    .setPaymentDate(2024, 3, 6);
+}
+
+describe("OrderBuilder refunds", () => {
+  it("leaves refunds off orders that have none", () => {
+    const order = createOrder()
+      .setItemName("HDMI cable")
+      .setItemPrice("$25.00")
+      .setItemQuantity(1)
+      .finalizeItem()
+      .build();
+
+    assert.equal("refunds" in order, false);
+  });
+
+  it("records pending returns for items", () => {
+    const order = createOrder()
+      .setItemName("HDMI cable")
+      .setItemPrice("$25.00")
+      .setItemQuantity(1)
+      .finalizeItem()
+      .markLastItemReturnStarted()
+      .build();
+
+    assert.deepStrictEqual(order.refunds, [
+      {
+        status: "pending",
+        itemName: "HDMI cable",
+        amount: "$25.00",
+        amountCents: 2500,
+      },
+    ]);
+  });
+
+  it("matches card refunds to pending returns by amount", () => {
+    const order = createOrder()
+      .setItemName("HDMI cable")
+      .setItemPrice("$10.00")
+      .setItemQuantity(1)
+      .finalizeItem()
+      .setItemName("USB charger")
+      .setItemPrice("$15.00")
+      .setItemQuantity(1)
+      .finalizeItem()
+      .markLastItemReturnStarted()
+      .addCreditCardRefund("Visa", "1234", "-$15.00")
+      .setRefundDate(2024, 3, 20)
+      .build();
+
+    assert.deepStrictEqual(order.refunds, [
+      {
+        status: "refunded",
+        itemName: "USB charger",
+        date: "2024-03-20",
+        amount: "$15.00",
+        amountCents: 1500,
+        paymentType: "credit_card",
+        cardType: "Visa",
+        last4: "1234",
+      },
+    ]);
+  });
+
+  it("records card refunds as positive amounts wherever the sign is", () => {
+    ["-$15.00", "$-15.00", "$15.00"].forEach((amount) => {
+      const order = createOrder()
+        .setItemName("HDMI cable")
+        .setItemPrice("$25.00")
+        .setItemQuantity(1)
+        .finalizeItem()
+        .addCreditCardRefund("Visa", "1234", amount)
+        .setRefundDate(2024, 3, 20)
+        .build();
+
+      assert.deepStrictEqual(
+        order.refunds?.map((r) => [r.amount, r.amountCents]),
+        [["$15.00", 1500]],
+        amount,
+      );
+    });
+  });
+
+  it("does not count refunds as payments", () => {
+    const order = createOrder()
+      .setItemName("HDMI cable")
+      .setItemPrice("$25.00")
+      .setItemQuantity(1)
+      .finalizeItem()
+      .addCreditCardRefund("Visa", "1234", "-$5.00")
+      .setRefundDate(2024, 3, 20)
+      .build();
+
+    assert.equal(order.payments.length, 1);
+    assert.equal(order.refunds?.[0].amountCents, 500);
+  });
+});
+
+describe("OrderBuilder discounts", () => {
+  function createDiscountedOrder(): OrderBuilder {
+    return new OrderBuilder()
+      .setID("123-4567890-1234567")
+      .setDate(2024, 3, 5)
+      .setSubtotal("$25.00")
+      .setShippingCost("$0.00")
+      .addDiscount("promotion", "Promotion Applied", "-$5.00")
+      .addDiscount("subscribe_and_save", "Subscribe & Save", "-$1.25")
+      .nothingWillBeShipped()
+      .setItemName("HDMI cable")
+      .setItemPrice("$25.00")
+      .setItemQuantity(1)
+      .finalizeItem();
+  }
+
+  it("records discounts as positive amounts", () => {
+    const order = createDiscountedOrder()
+      .setTax("$1.50")
+      .setTotal("$20.25")
+      .build();
+
+    assert.deepStrictEqual(order.discounts, [
+      {
+        type: "promotion",
+        description: "Promotion Applied",
+        amount: "$5.00",
+        amountCents: 500,
+      },
+      {
+        type: "subscribe_and_save",
+        description: "Subscribe & Save",
+        amount: "$1.25",
+        amountCents: 125,
+      },
+    ]);
+  });
+
+  it("records discounts as positive amounts wherever the sign is", () => {
+    ["-$5.00", "$-5.00", "$5.00"].forEach((amount) => {
+      const order = createDiscountedOrder()
+        .addDiscount("coupon", "Your Coupon Savings", amount)
+        .setTax("$1.50")
+        .setTotal("$15.25")
+        .build();
+
+      assert.deepStrictEqual(
+        order.discounts?.map((d) => [d.amount, d.amountCents]).slice(-1),
+        [["$5.00", 500]],
+        amount,
+      );
+    });
+  });
+
+  it("refuses discounts in another currency", () => {
+    const builder = createDiscountedOrder()
+      .addDiscount("coupon", "Your Coupon Savings", "-£5.00")
+      .setTax("$1.50")
+      .setTotal("$15.25");
+
+    assert.throws(() => builder.build(), CurrencyMismatchError);
+  });
+
+  it("builds orders whose totals don't add up", () => {
+    // e.g. when the invoice has a discount the parser doesn't recognize.
+    // validateOrder() warns about these.
+    const order = createDiscountedOrder()
+      .setTax("$1.50")
+      .setTotal("$26.50")
+      .build();
+
+    assert.equal(order.totalCents, 2650);
+  });
+
+  it("accounts for discounts when inferring taxes", () => {
+    const order = createDiscountedOrder()
+      .setTax("$0.00")
+      .setTotal("$20.25")
+      .inferTaxes()
+      .build();
+
+    assert.equal(order.tax, "$1.50");
+  });
+});
+
+describe("OrderBuilder product links", () => {
+  const createLinkedOrder = (itemNames: string[], linkTexts: string[]) => {
+    const builder = createOrder().setProductLinks(
+      linkTexts.map((text, i) => ({
+        asin: `B00EXAMPLE${i}`,
+        url: `https://www.amazon.com/dp/B00EXAMPLE${i}`,
+        text,
+      })),
+    );
+
+    itemNames.forEach((name, i) => {
+      builder
+        .setItemName(name)
+        .setItemPrice(i === 0 ? "$25.00" : "$0.00")
+        .setItemQuantity(1)
+        .finalizeItem();
+    });
+
+    return builder
+      .build()
+      .shipments.flatMap((s) => s.items.map((item) => item.asin));
+  };
+
+  it("matches links to items by name", () => {
+    assert.deepStrictEqual(
+      createLinkedOrder(
+        ["HDMI cable", "USB charger"],
+        ["USB charger", "HDMI cable"],
+      ),
+      ["B00EXAMPLE1", "B00EXAMPLE0"],
+    );
+  });
+
+  it("matches truncated names by prefix", () => {
+    assert.deepStrictEqual(
+      createLinkedOrder(["HDMI cable, 6 ft…"], ["HDMI cable, 6 ft, braided"]),
+      ["B00EXAMPLE0"],
+    );
+  });
+
+  it("doesn't match an item to another item's link", () => {
+    assert.deepStrictEqual(
+      createLinkedOrder(["Apple", "Apple Pencil"], ["Apple"]),
+      ["B00EXAMPLE0", undefined],
+    );
+  });
+
+  it("doesn't match when several links share the prefix", () => {
+    assert.deepStrictEqual(
+      createLinkedOrder(["USB"], ["USB charger", "USB cable"]),
+      [undefined],
+    );
+  });
+});
@@ -1,8 +1,12 @@
-import { formatMonetaryAmount, parseMonetaryAmount } from "./money.ts";
+import type { ProductLink } from "./invoice-parser/html.ts";
+import { Money, parseMonetaryAmount } from "./money.ts";
 import type {
+  Discount,
+  DiscountType,
   Order,
   OrderItem,
   Payment,
+  Refund,
   Shipment,
   ShippingAddress,
 } from "./types.ts";
@@ -12,6 +16,13 @@ type PartialShipment = Partial<Pick<Shipment, "date">> & {
   shippingAddress: Partial<ShippingAddress>;
 };
 
+type PartialRefund = Partial<Refund> & {
+  /**
+   * Set for pending returns, which are for a specific item.
+   */
+  item?: Partial<OrderItem>;
+};
+
 export type OrderBuilderOptions = {
   onAttributeCaptured?: (attr: string, value: unknown) => void;
 };
@@ -43,6 +54,10 @@ export class OrderBuilder {
   #shouldAdjustTotalBasedOnGiftCards = false;
   #assumedItemQuantity: number | undefined;
   #assumePaymentCoversFullAmount: boolean = false;
+  #productLinks: ProductLink[] = [];
+  #refunds: PartialRefund[] = [];
+  #discounts: Discount[] = [];
+  #digital = false;
 
   constructor(options?: OrderBuilderOptions) {
     this.#options = {
@@ -68,6 +83,7 @@ export class OrderBuilder {
 
   build(): Order {
     const { total, totalCents } = this.calculateTotal();
+    const discountTotal = this.discountTotal;
 
     const shippingCost = this.#order.shippingCost;
     const shippingCostCents = this.#order.shippingCostCents;
@@ -83,11 +99,14 @@ export class OrderBuilder {
         throw new Error("inferTaxes is set but order already has tax");
       }
 
-      taxCents = totalCents - subtotalCents - shippingCostCents;
-      tax = formatMonetaryAmount({
-        currency: this.#order.currency,
-        cents: taxCents,
-      });
+      const currency = this.#order.currency;
+      const inferredTax = new Money(totalCents, currency)
+        .subtract(new Money(subtotalCents, currency))
+        .subtract(new Money(shippingCostCents ?? 0, currency))
+        .add(discountTotal);
+
+      taxCents = inferredTax.cents;
+      tax = inferredTax.format();
     }
 
     const date = ensure(this.#order, "date");
@@ -107,10 +126,12 @@ export class OrderBuilder {
       }
     }
 
-    return {
+    const order: Order = {
       id: ensure(this.#order, "id"),
       currency: ensure(this.#order, "currency"),
       date,
+      ...(this.#digital ? { digital: true } : {}),
+      ...(this.#discounts.length > 0 ? { discounts: this.#discounts } : {}),
       payments: this.#payments.map((p, index) => {
         if (p.type == null) {
           throw new Error(`Payment ${index} type not set`);
@@ -122,20 +143,22 @@ export class OrderBuilder {
         }
 
         if (p.amount == null && this.#assumePaymentCoversFullAmount) {
-          let remainingAmountCents = this.#payments.reduce<number>(
-            (amt, p) => amt - (p.amountCents ?? 0),
-            totalCents,
+          const currency = this.#order.currency;
+          const remainingAmount = new Money(totalCents, currency).subtract(
+            Money.sum(
+              this.#payments.map(
+                (p) => new Money(p.amountCents ?? 0, currency),
+              ),
+              currency,
+            ),
           );
-          if (remainingAmountCents < 0) {
+          if (remainingAmount.isNegative()) {
             throw new Error(
-              `Payment ${index} amount cannot be set to negative value: ${remainingAmountCents}`,
+              `Payment ${index} amount cannot be set to negative value: ${remainingAmount.cents}`,
             );
           }
-          p.amount = formatMonetaryAmount({
-            currency: this.#order.currency,
-            cents: remainingAmountCents,
-          });
-          p.amountCents = remainingAmountCents;
+          p.amount = remainingAmount.format();
+          p.amountCents = remainingAmount.cents;
         }
 
         const amount = ensure(p, "amount");
@@ -175,12 +198,30 @@ export class OrderBuilder {
       placedBy: this.#order.placedBy,
       shipments: this.#shipments.map((s, index) => {
         const result: Shipment = {
-          items: s.items.map((i, itemIndex) => ({
-            name: ensure(i, "name"),
-            price: ensure(i, "price"),
-            priceCents: ensure(i, "priceCents"),
-            quantity: ensure(i, "quantity"),
-          })),
+          items: s.items.map((i, itemIndex) => {
+            const item: OrderItem = {
+              name: ensure(i, "name"),
+              price: ensure(i, "price"),
+              priceCents: ensure(i, "priceCents"),
+              quantity: ensure(i, "quantity"),
+            };
+
+            if (i.soldBy != null) {
+              item.soldBy = i.soldBy;
+            }
+
+            if (i.suppliedBy != null) {
+              item.suppliedBy = i.suppliedBy;
+            }
+
+            const link = this.findProductLink(item.name);
+            if (link != null) {
+              item.asin = link.asin;
+              item.productURL = link.url;
+            }
+
+            return item;
+          }),
         };
 
         if (this.#shippingAddressRequired) {
@@ -213,6 +254,13 @@ export class OrderBuilder {
       totalCents,
     };
 
+    const refunds = this.buildRefunds();
+    if (refunds.length > 0) {
+      order.refunds = refunds;
+    }
+
+    return order;
+
     function ensure<T extends {}, TKey extends keyof T>(
       obj: T,
       key: TKey,
@@ -242,6 +290,82 @@ export class OrderBuilder {
     return this;
   }
 
+  /**
+   * Records a refund to a credit card, e.g. from a negative transaction in
+   * the "Credit Card transactions" section.
+   */
+  addCreditCardRefund(cardType: string, last4: string, amount: string): this {
+    const { currency, value, cents } = parseMonetaryAmount(amount);
+    const positive = new Money(
+      Math.abs(cents),
+      currency ?? this.#order.currency,
+    );
+
+    this.#refunds.push({
+      status: "refunded",
+      amount: positive.format(),
+      amountCents: positive.cents,
+      paymentType: "credit_card",
+      cardType,
+      last4,
+    });
+
+    this.#options.onAttributeCaptured("refundAmount", value);
+
+    return this;
+  }
+
+  setRefundDate(
+    year: number | string,
+    month: number | string,
+    day: number | string,
+  ): this {
+    const refund = this.#refunds[this.#refunds.length - 1];
+    if (refund == null || refund.status !== "refunded") {
+      throw new Error("No refund to set the date on");
+    }
+
+    refund.date = this.normalizeDate(year, month, day);
+    this.#options.onAttributeCaptured("refundDate", refund.date);
+
+    return this;
+  }
+
+  /**
+   * Marks the most recently finalized item as having a return in progress.
+   */
+  markLastItemReturnStarted(): this {
+    const item = this.currentOrLastItem();
+
+    this.#refunds.push({ status: "pending", item });
+    this.#options.onAttributeCaptured("returnStarted", item.name);
+
+    return this;
+  }
+
+  /**
+   * Records an amount taken off the order, e.g. "Promotion Applied: -$5.00".
+   * The amount may be written with or without a minus sign.
+   */
+  addDiscount(type: DiscountType, description: string, amount: string): this {
+    const { currency, value, cents } = parseMonetaryAmount(amount);
+    const positive = new Money(
+      Math.abs(cents),
+      currency ?? this.#order.currency,
+    );
+
+    this.#discounts.push({
+      type,
+      description,
+      amount: positive.format(),
+      amountCents: positive.cents,
+    });
+
+    this.#options.onAttributeCaptured("discount", value);
+
+    return this;
+  }
+
   addGiftCardPayment(): this {
     this.payments.push({
       type: "gift_card",
@@ -303,6 +427,16 @@ export class OrderBuilder {
     return this;
   }
 
+  /**
+   * Marks this as a digital order (Kindle, Prime Video, etc.). Digital orders
+   * are never shipped.
+   */
+  markDigital(): this {
+    this.#digital = true;
+    this.#options.onAttributeCaptured("digital", true);
+    return this.nothingWillBeShipped();
+  }
+
   /**
    * Indicates this order will not actually be shipped, so
    * no shipping address is needed.
@@ -315,6 +449,7 @@ export class OrderBuilder {
 
   resetPaymentInformation(): this {
     this.#payments = [];
+    this.#refunds = this.#refunds.filter((r) => r.status === "pending");
     this.#assumePaymentCoversFullAmount = false;
     return this;
   }
@@ -388,6 +523,15 @@ export class OrderBuilder {
     return this;
   }
 
+  /**
+   * Provides the product links found on the invoice. They are matched to
+   * items by name when the order is built.
+   */
+  setProductLinks(links: ProductLink[]): this {
+    this.#productLinks = links;
+    return this;
+  }
+
   setItemName(value: string): this {
     this.ensureShipmentItem().name = value;
 
@@ -398,6 +542,18 @@ export class OrderBuilder {
     return this;
   }
 
+  setItemSoldBy(value: string): this {
+    this.currentOrLastItem().soldBy = value.trim();
+    this.#options.onAttributeCaptured("itemSoldBy", value);
+    return this;
+  }
+
+  setItemSuppliedBy(value: string): this {
+    this.currentOrLastItem().suppliedBy = value.trim();
+    this.#options.onAttributeCaptured("itemSuppliedBy", value);
+    return this;
+  }
+
   setItemQuantity(value: string | number): this {
     value = typeof value === "number" ? value : parseInt(value, 10);
     this.ensureShipmentItem().quantity = value;
@@ -410,7 +566,7 @@ export class OrderBuilder {
 
   setItemPrice(value: string | number, quantity?: number): this {
     const item = this.ensureShipmentItem();
-    let {
+    const {
       currency,
       value: price,
       cents: priceCents,
@@ -423,14 +579,9 @@ export class OrderBuilder {
     }
 
     if (quantity != null) {
-      priceCents =
-        quantity === 1 ? priceCents : Math.floor(priceCents / quantity);
-      value = formatMonetaryAmount({
-        currency,
-        cents: priceCents,
-      });
+      const unitPrice = new Money(priceCents, currency).divide(quantity);
 
-      this.setItemPrice(value).setItemQuantity(quantity);
+      this.setItemPrice(unitPrice.format()).setItemQuantity(quantity);
     } else {
       item.price = price;
       item.priceCents = priceCents;
@@ -695,7 +846,11 @@ export class OrderBuilder {
   }
 
   setTotal(value: string | number): this {
-    const { value: total, cents: totalCents } = parseMonetaryAmount(value);
+    const {
+      currency,
+      value: total,
+      cents: totalCents,
+    } = parseMonetaryAmount(value);
     if (
       this.#order.totalCents != null &&
       this.#order.totalCents !== totalCents
@@ -709,8 +864,8 @@ export class OrderBuilder {
       this.#options.onAttributeCaptured("total", total);
     }
 
-    if (total.startsWith("$")) {
-      this.setCurrency("$");
+    if (currency != null) {
+      this.setCurrency(currency);
     }
 
     return this;
@@ -733,26 +888,38 @@ export class OrderBuilder {
     return this.#payments[this.#payments.length - 1];
   }
 
-  private calculateTotal(): { total: string; totalCents: number } {
-    let totalCents = this.#order.totalCents;
+  /**
+   * @throws CurrencyMismatchError if a discount isn't in the order's currency.
+   */
+  private get discountTotal(): Money {
+    return Money.sum(
+      this.#discounts.map((d) => Money.parse(d.amount)),
+      this.#order.currency,
+    );
+  }
 
-    if (totalCents == null) {
+  private calculateTotal(): { total: string; totalCents: number } {
+    if (this.#order.totalCents == null) {
       throw new Error("Total not set");
     }
 
-    if (this.#shouldAdjustTotalBasedOnGiftCards) {
-      const giftCardTotalCents = this.#payments
-        .filter((p) => p.type === "gift_card")
-        .reduce((sum, p) => sum + p.amountCents!, 0);
+    const { currency } = parseMonetaryAmount(this.#order.total!);
+    let total = new Money(this.#order.totalCents, currency);
 
-      totalCents += giftCardTotalCents;
+    if (this.#shouldAdjustTotalBasedOnGiftCards) {
+      total = total.add(
+        Money.sum(
+          this.#payments
+            .filter((p) => p.type === "gift_card")
+            .map((p) => new Money(p.amountCents!, currency)),
+          currency,
+        ),
+      );
     }
 
-    const { currency } = parseMonetaryAmount(this.#order.total!);
-
     return {
-      totalCents,
-      total: formatMonetaryAmount({ currency, cents: totalCents }),
+      totalCents: total.cents,
+      total: total.format(),
     };
   }
 
@@ -767,6 +934,109 @@ export class OrderBuilder {
     return this.shipments[this.shipments.length - 1];
   }
 
+  /**
+   * Completed refunds usually can't be tied to an item on their own, but if
+   * one matches the amount of a pending return, it's the refund for that
+   * return.
+   */
+  private buildRefunds(): Refund[] {
+    const pending = this.#refunds
+      .filter((r) => r.status === "pending")
+      .map((r): Refund => {
+        const item = r.item!;
+        const price = new Money(item.priceCents!, this.#order.currency);
+        const amount = price.multiply(item.quantity ?? 1);
+
+        return {
+          status: "pending",
+          itemName: item.name,
+          amount: amount.format(),
+          amountCents: amount.cents,
+        };
+      });
+
+    const refunded = this.#refunds
+      .filter((r) => r.status === "refunded")
+      .map((r): Refund => {
+        const refund: Refund = {
+          status: "refunded",
+          date: r.date!,
+          amount: r.amount!,
+          amountCents: r.amountCents!,
+          paymentType: r.paymentType,
+          cardType: r.cardType,
+          last4: r.last4,
+        };
+
+        const index = pending.findIndex(
+          (p) => p.amountCents === refund.amountCents,
+        );
+
+        if (index >= 0) {
+          refund.itemName = pending[index].itemName;
+          pending.splice(index, 1);
+        }
+
+        return refund;
+      });
+
+    return [...refunded, ...pending];
+  }
+
+  private findProductLink(itemName: string): ProductLink | undefined {
+    const normalize = (s: string) =>
+      s
+        .toLowerCase()
+        .replace(/(\.\.\.|…)$/, "")
+        .replace(/\s+/g, " ")
+        .trim();
+
+    const name = normalize(itemName);
+
+    const exact = this.#productLinks.find(
+      (link) => normalize(link.text) === name,
+    );
+    if (exact != null) {
+      return exact;
+    }
+
+    // Invoices sometimes truncate long product names, so fall back to
+    // matching on a prefix--but only when a single product matches, and not
+    // one that another item in the order is named exactly. Otherwise a short
+    // name like "Apple" could pick up another item's ASIN.
+    const itemNames = new Set(
+      this.#shipments.flatMap((s) =>
+        s.items.map((i) => normalize(i.name ?? "")),
+      ),
+    );
+
+    const candidates = this.#productLinks.filter((link) => {
+      const text = normalize(link.text);
+      return (
+        text !== "" &&
+        !itemNames.has(text) &&
+        (name.startsWith(text) || text.startsWith(name))
+      );
+    });
+
+    const asins = new Set(candidates.map((link) => link.asin));
+    return asins.size === 1 ? candidates[0] : undefined;
+  }
+
+  /**
+   * Seller details sometimes come after the item's price, by which point the
+   * item has been finalized. Attach them to that item rather than starting a
+   * new one.
+   */
+  private currentOrLastItem(): Partial<OrderItem> {
+    const shipment = this.#shipments[this.#shipments.length - 1];
+    const lastItem = shipment?.items[shipment.items.length - 1];
+
+    return this.#lastItemFinalized && lastItem != null
+      ? lastItem
+      : this.ensureShipmentItem();
+  }
+
   private ensureShipmentItem(): Partial<OrderItem> {
     const shipment = this.ensureShipment();
     if (shipment.items.length === 0 || this.#lastItemFinalized) {
@@ -0,0 +1,21 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import {
+  compressPageBody,
+  decompressPageBody,
+  hashPageBody,
+} from "./page-bodies.ts";
+
+describe("#compressPageBody", () => {
+  it("round-trips through decompressPageBody", () => {
+    const body = "<html><body>Grand Total: £12.34 – ✓</body></html>";
+    assert.equal(decompressPageBody(compressPageBody(body)), body);
+  });
+});
+
+describe("#hashPageBody", () => {
+  it("hashes identical bodies the same", () => {
+    assert.equal(hashPageBody("<html>"), hashPageBody("<html>"));
+    assert.notEqual(hashPageBody("<html>"), hashPageBody("<html> "));
+  });
+});
@@ -0,0 +1,60 @@
+import crypto from "node:crypto";
+import sqlite from "node:sqlite";
+import zlib from "node:zlib";
+
+/**
+ * Page bodies (cached pages and invoice HTML) are stored brotli-compressed
+ * in the page_bodies table, keyed by the SHA-256 of the uncompressed body so
+ * that identical pages are only stored once.
+ */
+
+const BROTLI_OPTIONS: zlib.BrotliOptions = {
+  params: {
+    [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+    // Compression is synchronous and happens while scraping, so trade a little
+    // size for speed over the default quality of 11.
+    [zlib.constants.BROTLI_PARAM_QUALITY]: 6,
+  },
+};
+
+export function hashPageBody(body: string): string {
+  return crypto.createHash("sha256").update(body, "utf-8").digest("hex");
+}
+
+export function compressPageBody(body: string): Uint8Array {
+  return zlib.brotliCompressSync(Buffer.from(body, "utf-8"), BROTLI_OPTIONS);
+}
+
+export function decompressPageBody(data: Uint8Array): string {
+  return zlib.brotliDecompressSync(data).toString("utf-8");
+}
+
+/**
+ * Stores `body` in the page_bodies table unless an identical body is already
+ * there.
+ * @returns The hash to reference the body by.
+ */
+export function savePageBody(db: sqlite.DatabaseSync, body: string): string {
+  const hash = hashPageBody(body);
+  db.prepare(
+    "INSERT OR IGNORE INTO page_bodies (hash, body, size) VALUES (?, ?, ?)",
+  ).run(hash, compressPageBody(body), Buffer.byteLength(body, "utf-8"));
+  return hash;
+}
+
+/**
+ * Deletes those of `hashes` that are no longer referenced by the cache or
+ * orders tables.
+ */
+export function deleteUnusedPageBodies(
+  db: sqlite.DatabaseSync,
+  hashes: Iterable<string>,
+): void {
+  const statement = db.prepare(`
+    DELETE FROM page_bodies
+    WHERE hash = :hash
+      AND NOT EXISTS (SELECT 1 FROM cache WHERE body_hash = :hash)
+      AND NOT EXISTS (SELECT 1 FROM orders WHERE invoice_hash = :hash)
+  `);
+  new Set(hashes).forEach((hash) => statement.run({ hash }));
+}
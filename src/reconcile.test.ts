@@ -0,0 +1,157 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { reconcileStatementLines } from "./reconcile.ts";
+import type { StatementLine } from "./statements.ts";
+import type { Order, Payment } from "./types.ts";
+
+function createOrder(id: string, payments: Payment[]): Order {
+  const totalCents = payments.reduce((sum, p) => sum + p.amountCents, 0);
+  return {
+    id,
+    currency: "$",
+    date: payments[0]?.date,
+    payments,
+    shipments: [],
+    subtotal: "",
+    subtotalCents: totalCents,
+    tax: "$0.00",
+    taxCents: 0,
+    total: "",
+    totalCents,
+  };
+}
+
+function cardPayment(
+  date: string,
+  amountCents: number,
+  last4 = "1234",
+): Payment {
+  return {
+    type: "credit_card",
+    cardType: "Visa",
+    last4,
+    date,
+    amount: `$${(amountCents / 100).toFixed(2)}`,
+    amountCents,
+  };
+}
+
+function line(
+  date: string,
+  amountCents: number,
+  last4?: string,
+): StatementLine {
+  return {
+    date,
+    description: "AMAZON MKTPL",
+    amount: (amountCents / 100).toFixed(2),
+    amountCents,
+    ...(last4 == null ? {} : { last4 }),
+  };
+}
+
+describe("#reconcileStatementLines", () => {
+  it("matches charges to payments by amount and closest date", () => {
+    const near = createOrder("111-0000000-0000001", [
+      cardPayment("2024-03-05", 2650),
+    ]);
+    const far = createOrder("111-0000000-0000002", [
+      cardPayment("2024-03-01", 2650),
+    ]);
+
+    const report = reconcileStatementLines(
+      [line("2024-03-06", 2650)],
+      [far, near],
+    );
+
+    assert.deepStrictEqual(
+      report.matched.map((m) => m.order.id),
+      [near.id],
+    );
+    assert.deepStrictEqual(report.unmatchedLines, []);
+    assert.deepStrictEqual(
+      report.unmatchedPayments.map((p) => p.order.id),
+      [far.id],
+    );
+  });
+
+  it("does not match a payment made with a different card", () => {
+    const order = createOrder("111-0000000-0000001", [
+      cardPayment("2024-03-05", 2650, "9999"),
+    ]);
+
+    const report = reconcileStatementLines(
+      [line("2024-03-06", 2650, "1234")],
+      [order],
+    );
+
+    assert.equal(report.matched.length, 0);
+    assert.equal(report.unmatchedLines.length, 1);
+    assert.equal(report.unmatchedPayments.length, 1);
+  });
+
+  it("does not match charges too far from the payment date", () => {
+    const order = createOrder("111-0000000-0000001", [
+      cardPayment("2024-03-01", 2650),
+    ]);
+
+    const report = reconcileStatementLines(
+      [line("2024-03-20", 2650)],
+      [order],
+      { maxDaysApart: 7 },
+    );
+
+    assert.equal(report.matched.length, 0);
+    assert.equal(report.unmatchedLines.length, 1);
+  });
+
+  it("reports payments made after the last charge in the statement period", () => {
+    const matched = createOrder("111-0000000-0000001", [
+      cardPayment("2024-03-05", 2650),
+    ]);
+    const late = createOrder("111-0000000-0000002", [
+      cardPayment("2024-03-25", 1000),
+    ]);
+    const lines = [line("2024-03-06", 2650)];
+
+    assert.deepStrictEqual(
+      reconcileStatementLines(lines, [matched, late]).unmatchedPayments,
+      [],
+    );
+
+    const report = reconcileStatementLines(lines, [matched, late], {
+      period: { from: "2024-03-01", to: "2024-03-31" },
+    });
+
+    assert.equal(report.matched.length, 1);
+    assert.deepStrictEqual(
+      report.unmatchedPayments.map(({ order }) => order.id),
+      [late.id],
+    );
+  });
+
+  it("matches split shipments charged separately", () => {
+    const order = createOrder("111-0000000-0000001", [
+      cardPayment("2024-03-05", 4000),
+    ]);
+
+    const report = reconcileStatementLines(
+      [
+        line("2024-03-06", 1500),
+        line("2024-03-07", 999),
+        line("2024-03-09", 2500),
+      ],
+      [order],
+    );
+
+    assert.equal(report.matched.length, 1);
+    assert.deepStrictEqual(
+      report.matched[0].lines.map((l) => l.amountCents),
+      [1500, 2500],
+    );
+    assert.deepStrictEqual(
+      report.unmatchedLines.map((l) => l.amountCents),
+      [999],
+    );
+  });
+});
@@ -0,0 +1,231 @@
+import type { StatementLine } from "./statements.ts";
+import type { CreditCardPayment, Order } from "./types.ts";
+
+export type ReconcileOptions = {
+  /**
+   * How many days a statement line may be posted before or after the
+   * payment date and still match.
+   */
+  maxDaysApart: number;
+
+  /**
+   * The largest number of statement lines that will be combined to match a
+   * single payment.
+   */
+  maxSplitCharges: number;
+
+  /**
+   * The dates the statement covers. Payments made in this period that no
+   * statement line matches are reported in `unmatchedPayments`. Defaults to
+   * the dates of the first and last charges, which leaves out payments made
+   * after the last charge.
+   */
+  period?: StatementPeriod;
+};
+
+/**
+ * The first and last day (YYYY-MM-DD) covered by a statement.
+ */
+export type StatementPeriod = {
+  from: string;
+  to: string;
+};
+
+export type OrderPayment = {
+  order: Order;
+  payment: CreditCardPayment;
+};
+
+export type MatchedCharge = OrderPayment & {
+  /**
+   * The statement lines that make up this payment. There is more than one
+   * when Amazon charged the card separately for each shipment.
+   */
+  lines: StatementLine[];
+  daysApart: number;
+};
+
+export type ReconcileReport = {
+  matched: MatchedCharge[];
+  unmatchedLines: StatementLine[];
+  unmatchedPayments: OrderPayment[];
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const DEFAULTS: ReconcileOptions = {
+  maxDaysApart: 7,
+  maxSplitCharges: 4,
+};
+
+/**
+ * Matches statement charges to credit card payments. Matching happens in two
+ * passes: first one statement line to one payment by amount, card and date
+ * proximity, then groups of the remaining lines that add up to a payment.
+ */
+export function reconcileStatementLines(
+  lines: StatementLine[],
+  orders: Order[],
+  options?: Partial<ReconcileOptions>,
+): ReconcileReport {
+  const { maxDaysApart, maxSplitCharges, period } = {
+    ...DEFAULTS,
+    ...options,
+  };
+  const charges = lines.filter((line) => line.amountCents > 0);
+
+  if (charges.length === 0 && period == null) {
+    return { matched: [], unmatchedLines: [], unmatchedPayments: [] };
+  }
+
+  const statementDates = charges.map((line) => line.date).sort();
+  const earliest = addDays(period?.from ?? statementDates[0], -maxDaysApart);
+  const latest = period?.to ?? statementDates[statementDates.length - 1];
+
+  const payments: OrderPayment[] = orders.flatMap((order) =>
+    order.payments
+      .filter(
+        (payment): payment is CreditCardPayment =>
+          payment.type === "credit_card",
+      )
+      .filter((payment) => payment.date >= earliest && payment.date <= latest)
+      .map((payment) => ({ order, payment })),
+  );
+
+  const isCandidate = (line: StatementLine, { payment }: OrderPayment) =>
+    cardsCompatible(line, payment) &&
+    Math.abs(daysBetween(line.date, payment.date)) <= maxDaysApart;
+
+  const matched: MatchedCharge[] = [];
+  const unmatchedLines = new Set(charges);
+  const unmatchedPayments = new Set(payments);
+
+  // Pass 1: one line, one payment. Closest dates win.
+  const pairs = charges
+    .flatMap((line) =>
+      payments
+        .filter(
+          (p) =>
+            p.payment.amountCents === line.amountCents && isCandidate(line, p),
+        )
+        .map((p) => ({
+          line,
+          orderPayment: p,
+          daysApart: Math.abs(daysBetween(line.date, p.payment.date)),
+        })),
+    )
+    .sort((a, b) => a.daysApart - b.daysApart);
+
+  pairs.forEach(({ line, orderPayment, daysApart }) => {
+    if (!unmatchedLines.has(line) || !unmatchedPayments.has(orderPayment)) {
+      return;
+    }
+
+    unmatchedLines.delete(line);
+    unmatchedPayments.delete(orderPayment);
+    matched.push({ ...orderPayment, lines: [line], daysApart });
+  });
+
+  // Pass 2: several lines that add up to one payment.
+  Array.from(unmatchedPayments).forEach((orderPayment) => {
+    const candidates = Array.from(unmatchedLines).filter(
+      (line) =>
+        line.amountCents < orderPayment.payment.amountCents &&
+        isCandidate(line, orderPayment),
+    );
+
+    const combination = findCombination(
+      candidates,
+      orderPayment.payment.amountCents,
+      maxSplitCharges,
+    );
+
+    if (combination == null) {
+      return;
+    }
+
+    combination.forEach((line) => unmatchedLines.delete(line));
+    unmatchedPayments.delete(orderPayment);
+    matched.push({
+      ...orderPayment,
+      lines: combination,
+      daysApart: Math.max(
+        ...combination.map((line) =>
+          Math.abs(daysBetween(line.date, orderPayment.payment.date)),
+        ),
+      ),
+    });
+  });
+
+  return {
+    matched: matched.sort((a, b) =>
+      a.lines[0].date.localeCompare(b.lines[0].date),
+    ),
+    unmatchedLines: Array.from(unmatchedLines),
+    unmatchedPayments: Array.from(unmatchedPayments),
+  };
+}
+
+function cardsCompatible(
+  line: StatementLine,
+  payment: CreditCardPayment,
+): boolean {
+  return line.last4 == null || payment.last4 == null
+    ? true
+    : line.last4 === payment.last4;
+}
+
+/**
+ * Finds the smallest group of lines (at least two) whose amounts sum to
+ * `targetCents`.
+ */
+function findCombination(
+  lines: StatementLine[],
+  targetCents: number,
+  maxSize: number,
+): StatementLine[] | undefined {
+  for (let size = 2; size <= Math.min(maxSize, lines.length); size++) {
+    const result = search(0, size, targetCents, []);
+    if (result) {
+      return result;
+    }
+  }
+
+  function search(
+    start: number,
+    remainingCount: number,
+    remainingCents: number,
+    chosen: StatementLine[],
+  ): StatementLine[] | undefined {
+    if (remainingCount === 0) {
+      return remainingCents === 0 ? chosen : undefined;
+    }
+
+    for (let i = start; i < lines.length; i++) {
+      if (lines[i].amountCents > remainingCents) {
+        continue;
+      }
+
+      const result = search(
+        i + 1,
+        remainingCount - 1,
+        remainingCents - lines[i].amountCents,
+        [...chosen, lines[i]],
+      );
+
+      if (result) {
+        return result;
+      }
+    }
+  }
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(a) - Date.parse(b)) / MS_PER_DAY);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
@@ -0,0 +1,430 @@
+import assert from "node:assert";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { launchBrowser } from "./browser.ts";
+import { createCacheKey } from "./cache.ts";
+import { DataStore } from "./datastore.ts";
+import { getInvoiceURL } from "./marketplaces.ts";
+import {
+  Scraper,
+  SignInRequiredError,
+  type ScraperOptions,
+} from "./scraper.ts";
+import { MockAmazon, type MockAmazonOptions } from "./testing/mock-amazon.ts";
+import { loadFixtureOrders, MOCK_ORDERS } from "./testing/mock-orders.ts";
+
+// These tests drive a real browser against MockAmazon. Skip them when no
+// browser can be launched.
+const SKIP = await canLaunchBrowser().then((ok) =>
+  ok ? false : "No browser available",
+);
+
+// Real invoices, when fixtures/ has been decrypted
+const FIXTURE_ORDERS = await loadFixtureOrders();
+
+async function canLaunchBrowser(): Promise<boolean> {
+  const profileDir = await fs.mkdtemp(path.join(os.tmpdir(), "aos-browser-"));
+  try {
+    const context = await launchBrowser(profileDir, { headless: true });
+    await context.close();
+    return true;
+  } catch {
+    return false;
+  } finally {
+    await fs.rm(profileDir, { recursive: true, force: true });
+  }
+}
+
+type Harness = {
+  amazon: MockAmazon;
+  datastore: DataStore;
+  createScraper: (options?: Partial<ScraperOptions>) => Scraper;
+};
+
+async function withMockAmazon(
+  options: Partial<MockAmazonOptions>,
+  fn: (harness: Harness) => Promise<void>,
+) {
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "aos-scraper-"));
+  const amazon = await MockAmazon.start({
+    orders: MOCK_ORDERS,
+    pageSize: 1,
+    ...options,
+  });
+  const datastore = new DataStore(":memory:");
+  const scrapers: Scraper[] = [];
+
+  try {
+    await fn({
+      amazon,
+      datastore,
+      createScraper(scraperOptions = {}) {
+        const scraper = new Scraper({
+          dataDir,
+          datastore,
+          marketplace: amazon.marketplace,
+          minDelay: 0,
+          maxDelay: 0,
+          ...scraperOptions,
+        });
+        scrapers.push(scraper);
+        return scraper;
+      },
+    });
+  } finally {
+    await Promise.all(scrapers.map((scraper) => scraper.close()));
+    await amazon.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  }
+}
+
+async function getOrderIDs(datastore: DataStore): Promise<string[]> {
+  return (await datastore.getOrders()).map((order) => order.id).sort();
+}
+
+async function getStoredInvoiceURL(
+  datastore: DataStore,
+  orderID: string,
+): Promise<URL> {
+  const invoice = (await datastore.getStoredInvoices()).find(
+    (invoice) => invoice.orderID === orderID,
+  );
+  assert.ok(invoice != null, `No stored invoice for ${orderID}`);
+  return invoice.invoiceURL;
+}
+
+function idsOf(orders: { id: string }[]): string[] {
+  return orders.map((order) => order.id).sort();
+}
+
+function isInvoiceRequest(url: URL): boolean {
+  return url.searchParams.has("orderID");
+}
+
+describe("Scraper", { skip: SKIP }, () => {
+  it("scrapes every order, following pagination", () =>
+    withMockAmazon({}, async ({ amazon, datastore, createScraper }) => {
+      await createScraper().scrape();
+
+      assert.deepStrictEqual(
+        await getOrderIDs(datastore),
+        idsOf(amazon.orders),
+      );
+      assert.ok(
+        amazon.requests.some((url) => url.searchParams.has("startIndex")),
+      );
+    }));
+
+  it(
+    "scrapes the invoices in fixtures/",
+    { skip: FIXTURE_ORDERS.length === 0 ? "fixtures/ is encrypted" : false },
+    () =>
+      withMockAmazon(
+        { orders: FIXTURE_ORDERS, pageSize: 10 },
+        async ({ amazon, datastore, createScraper }) => {
+          await createScraper().scrape();
+
+          assert.deepStrictEqual(
+            await getOrderIDs(datastore),
+            idsOf(amazon.orders),
+          );
+        },
+      ),
+  );
+
+  describe("caching", () => {
+    it("uses cached order lists and invoices on the next run", () =>
+      withMockAmazon({}, async ({ amazon, createScraper }) => {
+        await createScraper().scrape();
+        const requestCount = amazon.requests.length;
+
+        await createScraper().scrape();
+        const requests = amazon.requests.slice(requestCount);
+
+        // Only the page listing the years is fetched again
+        assert.deepStrictEqual(
+          requests.map((url) => url.pathname + url.search),
+          [amazon.marketplace.ordersPath],
+        );
+      }));
+
+    it("refetches order lists but not invoices for SCRAPE_YEAR_NO_CACHE", () =>
+      withMockAmazon({}, async ({ amazon, createScraper }) => {
+        await createScraper().scrape();
+        const requestCount = amazon.requests.length;
+
+        await createScraper({
+          onBeforeYearScrape: () => "SCRAPE_YEAR_NO_CACHE",
+        }).scrape();
+        const requests = amazon.requests.slice(requestCount);
+
+        assert.ok(requests.length > 1);
+        assert.ok(!requests.some(isInvoiceRequest));
+      }));
+  });
+
+  describe("offline", () => {
+    // Copies the pages cached by an online scrape into a new datastore, so
+    // an offline scrape has to rebuild every order from them.
+    async function copyCache(from: DataStore): Promise<DataStore> {
+      const to = new DataStore(":memory:");
+      for (const key of await from.getCacheKeys()) {
+        await to.updateCache(key, (await from.checkCache(key))!);
+      }
+      return to;
+    }
+
+    it("rebuilds orders from the cache without fetching anything", () =>
+      withMockAmazon({}, async ({ amazon, datastore, createScraper }) => {
+        await createScraper().scrape();
+        const requestCount = amazon.requests.length;
+        const offlineDatastore = await copyCache(datastore);
+
+        const scraper = createScraper({
+          datastore: offlineDatastore,
+          offline: true,
+        });
+        await scraper.scrape();
+
+        assert.deepStrictEqual(amazon.requests.slice(requestCount), []);
+        assert.deepStrictEqual(scraper.missingURLs, []);
+        assert.deepStrictEqual(
+          await getOrderIDs(offlineDatastore),
+          idsOf(amazon.orders),
+        );
+      }));
+
+    it("skips and lists pages that aren't cached", () =>
+      withMockAmazon({}, async ({ amazon, datastore, createScraper }) => {
+        await createScraper().scrape();
+        const requestCount = amazon.requests.length;
+        const offlineDatastore = await copyCache(datastore);
+
+        const [missing, ...rest] = amazon.orders;
+        const invoiceURL = await getStoredInvoiceURL(datastore, missing.id);
+        await offlineDatastore.deleteCacheKey(
+          createCacheKey("default", invoiceURL),
+        );
+
+        const scraper = createScraper({
+          datastore: offlineDatastore,
+          offline: true,
+        });
+        await scraper.scrape();
+
+        assert.deepStrictEqual(amazon.requests.slice(requestCount), []);
+        assert.deepStrictEqual(
+          scraper.missingURLs.map((url) => url.toString()),
+          [invoiceURL.toString()],
+        );
+        assert.deepStrictEqual(
+          await getOrderIDs(offlineDatastore),
+          idsOf(rest),
+        );
+      }));
+
+    it("doesn't record progress, so --resume still scrapes online", () =>
+      withMockAmazon({}, async ({ amazon, datastore, createScraper }) => {
+        await createScraper().scrape();
+        const offlineDatastore = await copyCache(datastore);
+
+        await createScraper({
+          datastore: offlineDatastore,
+          offline: true,
+        }).scrape();
+
+        assert.deepStrictEqual(
+          await offlineDatastore.getScrapeProgress(
+            "default",
+            amazon.marketplace.id,
+          ),
+          [],
+        );
+
+        const requestCount = amazon.requests.length;
+        await createScraper({
+          datastore: offlineDatastore,
+          resume: true,
+        }).scrape();
+
+        assert.notEqual(amazon.requests.length, requestCount);
+      }));
+  });
+
+  describe("#scrapeOrdersByID", () => {
+    it("re-scrapes just the given orders, ignoring the cache", () =>
+      withMockAmazon({}, async ({ amazon, datastore, createScraper }) => {
+        await createScraper().scrape();
+        const requestCount = amazon.requests.length;
+        const cacheKeys = await datastore.getCacheKeys();
+        const [order] = amazon.orders;
+
+        const orders = await createScraper().scrapeOrdersByID([order.id]);
+
+        // The invoice is fetched from the link on the order list, replacing
+        // its cached copy
+        assert.deepStrictEqual(idsOf(orders), [order.id]);
+        assert.deepStrictEqual(
+          amazon.requests.slice(requestCount).map((url) => url.toString()),
+          [(await getStoredInvoiceURL(datastore, order.id)).toString()],
+        );
+        assert.deepStrictEqual(await datastore.getCacheKeys(), cacheKeys);
+      }));
+
+    it("scrapes orders it hasn't seen from their invoice URL", () =>
+      withMockAmazon({}, async ({ amazon, datastore, createScraper }) => {
+        const [order] = amazon.orders;
+
+        await createScraper().scrapeOrdersByID([order.id]);
+
+        assert.deepStrictEqual(
+          amazon.requests.map((url) => url.toString()),
+          [getInvoiceURL(amazon.marketplace, order.id).toString()],
+        );
+        assert.deepStrictEqual(await getOrderIDs(datastore), [order.id]);
+      }));
+  });
+
+  describe("#getStaleOrderIDs", () => {
+    it("ignores invoices scraped long after the order was placed", () =>
+      withMockAmazon({}, async ({ createScraper }) => {
+        const scraper = createScraper();
+        await scraper.scrape();
+
+        assert.deepStrictEqual(await scraper.getStaleOrderIDs(), []);
+      }));
+  });
+
+  describe("onBeforeYearScrape", () => {
+    it("skips years for SKIP_YEAR", () =>
+      withMockAmazon({}, async ({ amazon, datastore, createScraper }) => {
+        const [skippedYear] = amazon.years;
+
+        await createScraper({
+          onBeforeYearScrape: (year) =>
+            year === skippedYear ? "SKIP_YEAR" : "SCRAPE_YEAR",
+        }).scrape();
+
+        assert.deepStrictEqual(
+          await getOrderIDs(datastore),
+          idsOf(
+            amazon.orders.filter((o) => !o.date.startsWith(`${skippedYear}`)),
+          ),
+        );
+      }));
+
+    it("stops scraping for STOP_SCRAPING", () =>
+      withMockAmazon({}, async ({ amazon, datastore, createScraper }) => {
+        const [newestYear, stopYear] = amazon.years;
+        const yearsScraped: number[] = [];
+
+        await createScraper({
+          onBeforeYearScrape: (year) => {
+            if (year === stopYear) {
+              return "STOP_SCRAPING";
+            }
+            yearsScraped.push(year);
+            return "SCRAPE_YEAR";
+          },
+        }).scrape();
+
+        assert.deepStrictEqual(yearsScraped, [newestYear]);
+        assert.deepStrictEqual(
+          await getOrderIDs(datastore),
+          idsOf(
+            amazon.orders.filter((o) => o.date.startsWith(`${newestYear}`)),
+          ),
+        );
+      }));
+  });
+
+  describe("onBeforeOrderScrape", () => {
+    it("doesn't save orders for SKIP_ORDER", () =>
+      withMockAmazon({}, async ({ amazon, datastore, createScraper }) => {
+        const [skipped, ...rest] = amazon.orders;
+        const scraped: string[] = [];
+
+        await createScraper({
+          onBeforeOrderScrape: (id) =>
+            id === skipped.id ? "SKIP_ORDER" : "SCRAPE_ORDER",
+          onOrderScraped: (order) => scraped.push(order.id),
+        }).scrape();
+
+        assert.deepStrictEqual(await getOrderIDs(datastore), idsOf(rest));
+        assert.deepStrictEqual(scraped.sort(), idsOf(rest));
+      }));
+
+    it("stops scraping for STOP_SCRAPING", () =>
+      withMockAmazon({}, async ({ amazon, datastore, createScraper }) => {
+        await createScraper({
+          onBeforeOrderScrape: () => "STOP_SCRAPING",
+        }).scrape();
+
+        assert.deepStrictEqual(await getOrderIDs(datastore), []);
+        assert.strictEqual(amazon.requests.filter(isInvoiceRequest).length, 1);
+      }));
+  });
+
+  describe("signing in", () => {
+    it("throws SignInRequiredError when signed out", () =>
+      withMockAmazon(
+        { signedIn: false },
+        async ({ amazon, datastore, createScraper }) => {
+          await assert.rejects(
+            () => createScraper().scrape(),
+            SignInRequiredError,
+          );
+
+          assert.deepStrictEqual(await getOrderIDs(datastore), []);
+          assert.ok(
+            amazon.requests.some((url) => url.pathname === "/ap/signin"),
+          );
+        },
+      ));
+
+    it("scrapes once signed in", () =>
+      withMockAmazon(
+        { signedIn: false },
+        async ({ amazon, datastore, createScraper }) => {
+          const scraper = createScraper();
+
+          await assert.rejects(() => scraper.scrape(), SignInRequiredError);
+
+          amazon.signIn();
+          await scraper.scrape();
+
+          assert.deepStrictEqual(
+            await getOrderIDs(datastore),
+            idsOf(amazon.orders),
+          );
+        },
+      ));
+  });
+
+  describe("retrying", () => {
+    it("retries pages that fail to load", () =>
+      withMockAmazon({}, async ({ amazon, datastore, createScraper }) => {
+        amazon.failNextRequests(2);
+
+        await createScraper().scrape();
+
+        const [first, second, third] = amazon.requests;
+        assert.strictEqual(first.toString(), second.toString());
+        assert.strictEqual(second.toString(), third.toString());
+        assert.deepStrictEqual(
+          await getOrderIDs(datastore),
+          idsOf(amazon.orders),
+        );
+      }));
+
+    it("gives up after five attempts", () =>
+      withMockAmazon({}, async ({ amazon, createScraper }) => {
+        amazon.failNextRequests(5);
+
+        await assert.rejects(() => createScraper().scrape());
+        assert.strictEqual(amazon.requests.length, 5);
+      }));
+  });
+});
@@ -1,16 +1,26 @@
 import { JSDOM } from "jsdom";
 import path from "node:path";
 import type { Page } from "playwright";
-import { chromium } from "playwright-extra";
 
-import { DataStore } from "./datastore.ts";
+import { launchBrowser, type BrowserContext } from "./browser.ts";
+import {
+  createCacheKey,
+  getOrderListYear,
+  isInvoiceURL,
+  parseCacheKey,
+  type ExpiringCachePageType,
+} from "./cache.ts";
+import { loadConfig, type Config } from "./config.ts";
+import { DataStore, type ScrapeProgress } from "./datastore.ts";
 import { parseInvoiceHTML } from "./invoice-parser/main.ts";
+import {
+  DEFAULT_MARKETPLACE,
+  getInvoiceURL,
+  type Marketplace,
+} from "./marketplaces.ts";
+import { parseTransactionsHTML, type Transaction } from "./transactions.ts";
 import type { Order } from "./types.ts";
 
-type BrowserContext = Awaited<
-  ReturnType<typeof chromium.launchPersistentContext>
->;
-
 export type OrderScrapeAction =
   | "SCRAPE_ORDER"
   | "SKIP_ORDER"
@@ -18,15 +28,39 @@ export type OrderScrapeAction =
   | "STOP_SCRAPING";
 
 export type YearScrapeAction =
-  | Omit<OrderScrapeAction, "SKIP_ORDER" | "SCRAPE_ORDER">
+  | Exclude<OrderScrapeAction, "SKIP_ORDER" | "SCRAPE_ORDER">
   | "SCRAPE_YEAR"
   | "SCRAPE_YEAR_NO_CACHE";
 
 export type ScraperOptions = {
-  root: string;
+  marketplace: Marketplace;
   datastore: DataStore;
   dataDir: string;
   headless: boolean;
+
+  /**
+   * Chrome or Chromium executable to use, overriding the environment and
+   * config.json.
+   */
+  browserPath: string | undefined;
+
+  /**
+   * When set, scrape() also walks the Transactions page back to this date
+   * and saves what it finds.
+   */
+  transactionsSince: Date | undefined;
+
+  /**
+   * Skip years that a previous run finished, and continue partly scraped
+   * years from the page and invoice where the previous run stopped.
+   */
+  resume: boolean;
+
+  /**
+   * Only use pages from the cache, never launching a browser. Pages that
+   * aren't cached are skipped and listed in Scraper.missingURLs.
+   */
+  offline: boolean;
   minDelay: number;
   maxDelay: number;
   user?: string;
@@ -38,7 +72,8 @@ export type ScraperOptions = {
   warn: (...args: unknown[]) => void;
 
   /**
-   * Hook called before an order is scraped.
+   * Hook called once an order's invoice has been parsed, but before the
+   * order is saved.
    * @param id
    * @param date
    * @returns
@@ -61,16 +96,20 @@ type ParsePageContentOptions = {
   page?: Page;
 };
 
-const ORDERS_URL = "/your-orders/orders";
-
-const MIN_ORDER_AGE_TO_USE_CACHE_IN_MS = 30 * 24 * 60 * 60 * 1000;
-
-const INVOICE_LINK_SELECTOR = 'a[href*="print.html"]';
+/**
+ * Invoices for orders younger than this are still changing (items ship,
+ * refunds are issued), so aren't read from the cache.
+ */
+export const MIN_ORDER_AGE_TO_USE_CACHE_IN_MS = 30 * 24 * 60 * 60 * 1000;
 
 const DEFAULTS: Required<Omit<ScraperOptions, "dataDir" | "datastore">> = {
-  root: "https://www.amazon.com",
+  marketplace: DEFAULT_MARKETPLACE,
 
   headless: true,
+  browserPath: undefined,
+  transactionsSince: undefined,
+  resume: false,
+  offline: false,
   minDelay: 500,
   maxDelay: 1500,
   user: "default",
@@ -127,8 +166,30 @@ export class InvoiceParsingFailedError extends ParsingError {
   }
 }
 
+export class PageNotCachedError extends Error {
+  #url: URL;
+
+  constructor(url: URL) {
+    super(`Page not in cache: ${url.toString()}`);
+    this.#url = url;
+    this.name = this.constructor.name;
+  }
+
+  get url() {
+    return this.#url;
+  }
+}
+
 export class Scraper {
   #contextPromise: Promise<BrowserContext> | undefined;
+  #configPromise: Promise<Config> | undefined;
+  #missingURLs: URL[] = [];
+
+  /**
+   * Set when onBeforeOrderScrape() asks to skip the rest of the year or stop
+   * scraping altogether.
+   */
+  #stopAction: "SKIP_YEAR" | "STOP_SCRAPING" | undefined;
   #lastNavigationAt = new Date(1970, 0, 1);
   #options: Required<ScraperOptions>;
 
@@ -148,6 +209,14 @@ export class Scraper {
     return this.#options.datastore;
   }
 
+  /**
+   * Pages that were skipped because they weren't in the cache (offline
+   * mode only).
+   */
+  get missingURLs(): URL[] {
+    return [...this.#missingURLs];
+  }
+
   public async close() {
     const contextPromise = this.#contextPromise;
     this.#contextPromise = undefined;
@@ -163,9 +232,13 @@ export class Scraper {
    * @returns {Promise<number[]>} - The years available for scraping
    */
   public async getYearsAvailableToScrape(page?: Page): Promise<number[]> {
+    if (this.#options.offline) {
+      return this.getCachedYears();
+    }
+
     return await this.parsePageContent(
       {
-        url: new URL(ORDERS_URL, this.#options.root),
+        url: new URL(this.marketplace.ordersPath, this.marketplace.root),
         checkCache: (key: string) => Promise.resolve(undefined),
         updateCache: (key: string, value: string) => Promise.resolve(),
         page,
@@ -176,8 +249,9 @@ export class Scraper {
             ? new JSDOM(document).window.document
             : document;
 
+        const { yearFilterParam, yearFilterPrefix } = this.marketplace;
         const select = document.querySelector<HTMLSelectElement>(
-          'select[name="timeFilter"]',
+          `select[name="${yearFilterParam}"]`,
         );
 
         if (!select) {
@@ -190,8 +264,8 @@ export class Scraper {
 
         const years = Array.from(select.options)
           .map((o) => o.value)
-          .filter((v) => /^year-/.test(v))
-          .map((v) => parseInt(v.replace(/^year-/, ""), 10));
+          .filter((v) => v.startsWith(yearFilterPrefix))
+          .map((v) => parseInt(v.slice(yearFilterPrefix.length), 10));
 
         years.sort((a, b) => b - a);
 
@@ -201,6 +275,12 @@ export class Scraper {
   }
 
   async scrape(page?: Page): Promise<void> {
+    if (this.#options.transactionsSince != null && this.#options.offline) {
+      this.warn("Transactions are never cached, so can't be scraped offline");
+    } else if (this.#options.transactionsSince != null) {
+      await this.scrapeTransactions(this.#options.transactionsSince, page);
+    }
+
     const years = await this.getYearsAvailableToScrape(page);
     this.debug(`Years to scrape: ${years.join(",")}`);
 
@@ -209,11 +289,12 @@ export class Scraper {
     return years.reduce<Promise<void>>(
       (promise, year) =>
         promise.then(async () => {
-          if (!continueScraping) {
+          if (!continueScraping || this.#stopAction === "STOP_SCRAPING") {
             return;
           }
 
-          const action = this.#options.onBeforeYearScrape(year) ?? "SCRAPE";
+          const action =
+            this.#options.onBeforeYearScrape(year) ?? "SCRAPE_YEAR";
 
           switch (action) {
             case "STOP_SCRAPING":
@@ -243,6 +324,57 @@ export class Scraper {
     );
   }
 
+  /**
+   * Walks the Transactions page, newest first, until it reaches transactions
+   * from before `since`, and saves them. The page changes as new charges
+   * come in, so it's never cached.
+   */
+  async scrapeTransactions(since: Date, page?: Page): Promise<Transaction[]> {
+    const { transactionsPath, transactionsNextPageLinkSelector, root } =
+      this.marketplace;
+    const sinceDate = since.toISOString().slice(0, 10);
+    const transactions: Transaction[] = [];
+    let url: URL | undefined = new URL(transactionsPath, root);
+    let pageIndex = 0;
+
+    while (url != null) {
+      pageIndex++;
+      this.verbose(`Scraping page ${pageIndex} of transactions`);
+
+      const [pageTransactions, nextPageURL] = await this.parsePageContent(
+        {
+          url,
+          checkCache: () => Promise.resolve(undefined),
+          updateCache: () => Promise.resolve(),
+          page,
+        },
+        async (url, document, rawContent) => {
+          const nextPageURL = document.querySelector<HTMLAnchorElement>(
+            transactionsNextPageLinkSelector,
+          )?.href;
+
+          return [
+            parseTransactionsHTML(rawContent),
+            nextPageURL == null ? undefined : new URL(nextPageURL, url),
+          ] as const;
+        },
+      );
+
+      transactions.push(...pageTransactions);
+
+      const reachedSince = pageTransactions.some((t) => t.date < sinceDate);
+      url =
+        pageTransactions.length === 0 || reachedSince ? undefined : nextPageURL;
+    }
+
+    const result = transactions.filter((t) => t.date >= sinceDate);
+    await this.datastore.saveTransactions(result, this.#options.user);
+
+    this.verbose(`Saved ${result.length} transaction(s)`);
+
+    return result;
+  }
+
   async navigatePage(page: Page, url: URL | string): Promise<void> {
     const navRequired = page.url() !== url.toString();
     if (!navRequired) {
@@ -269,7 +401,7 @@ export class Scraper {
   }
 
   private cacheKey(url: URL): string {
-    return ["v1", "user", this.#options.user, "url", url.toString()].join(":");
+    return createCacheKey(this.#options.user, url);
   }
 
   private async parsePageContent<T>(
@@ -282,9 +414,17 @@ export class Scraper {
     ) => Promise<T | undefined>,
   ): Promise<T | undefined> {
     const cacheKey = this.cacheKey(url);
-    let content: string | undefined = await checkCache(cacheKey);
     let actualURL: URL = url;
 
+    // Offline, whatever is cached is the best we've got, however old it is.
+    let content: string | undefined = this.#options.offline
+      ? await this.datastore.checkCache(cacheKey)
+      : await checkCache(cacheKey);
+
+    if (this.#options.offline && content == null) {
+      throw new PageNotCachedError(url);
+    }
+
     const doParse = async (
       url: URL,
       rawContent: string,
@@ -293,6 +433,14 @@ export class Scraper {
     ): Promise<T | undefined> => {
       const { document } = new JSDOM(rawContent).window;
 
+      if (this.marketplace.signInPathPattern.test(url.pathname)) {
+        throw new SignInRequiredError(
+          `Redirected to sign-in page ${url.toString()}`,
+          rawContent,
+          page,
+        );
+      }
+
       let result: T | undefined;
 
       try {
@@ -329,6 +477,10 @@ export class Scraper {
         try {
           return await doParse(url, cachedContent, false);
         } catch (err) {
+          if (this.#options.offline) {
+            throw err;
+          }
+
           this.warn(
             `Error parsing cached content (falling back to browser): ${err.message}`,
           );
@@ -369,12 +521,92 @@ export class Scraper {
     }
   }
 
+  /**
+   * Scrapes orders straight from their invoices, ignoring any cached copies,
+   * and saves them. Orders are scraped in the order given.
+   */
+  async scrapeOrdersByID(orderIDs: string[], page?: Page): Promise<Order[]> {
+    const orders: Order[] = [];
+    const knownInvoiceURLs = await this.getKnownInvoiceURLs();
+
+    await orderIDs.reduce<Promise<void>>(
+      (promise, orderID) =>
+        promise.then(async () => {
+          const invoiceURL =
+            knownInvoiceURLs.get(orderID) ??
+            getInvoiceURL(this.marketplace, orderID);
+          const result = await this.skipIfNotCached(() =>
+            this.scrapeOrder(invoiceURL, false),
+          );
+
+          if (result?.action === "SCRAPE_ORDER") {
+            orders.push(result.order);
+          }
+        }),
+      Promise.resolve(),
+    );
+
+    return orders;
+  }
+
+  /**
+   * @returns IDs of stored orders whose invoices were scraped less than
+   *          MIN_ORDER_AGE_TO_USE_CACHE_IN_MS after the order was placed, and
+   *          so might be out of date.
+   */
+  async getStaleOrderIDs(): Promise<string[]> {
+    const invoices = (await this.datastore.getStoredInvoices()).filter(
+      (invoice) => invoice.user === this.#options.user,
+    );
+
+    const stale: string[] = [];
+
+    await invoices.reduce<Promise<void>>(
+      (promise, { orderID, orderDate, invoiceURL }) =>
+        promise.then(async () => {
+          // Without a cached copy we don't know when the invoice was
+          // scraped, so go by how old the order is now.
+          const scrapedAt =
+            (await this.datastore.getCacheUpdatedAt(
+              this.cacheKey(invoiceURL),
+            )) ?? new Date();
+
+          const ageWhenScraped =
+            scrapedAt.getTime() - new Date(orderDate).getTime();
+
+          if (ageWhenScraped < MIN_ORDER_AGE_TO_USE_CACHE_IN_MS) {
+            stale.push(orderID);
+          }
+        }),
+      Promise.resolve(),
+    );
+
+    return stale;
+  }
+
   protected async scrapeOrder(
     invoiceURL: URL,
-  ): Promise<{ order: Order; wasCached: boolean }> {
+    cacheAllowed = true,
+  ): Promise<{ order: Order; wasCached: boolean; action: OrderScrapeAction }> {
     let wasCached = true;
+    let action: OrderScrapeAction = "SCRAPE_ORDER";
 
     const checkCache = async (key: string) => {
+      if (!cacheAllowed) {
+        wasCached = false;
+        this.onCacheMiss(key, `Cache not allowed`);
+        return;
+      }
+
+      if (await this.isCacheExpired(key, "invoice")) {
+        wasCached = false;
+        this.onCacheMiss(
+          key,
+          "Cached invoice is older than cacheMaxAge.invoice",
+        );
+        return;
+      }
+
       const value = await this.datastore.checkCache(key);
 
       if (value == null) {
@@ -427,24 +659,37 @@ export class Scraper {
         updateCache,
       },
       async (url, _document, rawContent, page) => {
+        let order: Order;
+
         try {
-          const order = parseInvoiceHTML(rawContent);
+          order = parseInvoiceHTML(rawContent);
+        } catch (err) {
+          throw new InvoiceParsingFailedError(err.message, rawContent);
+        }
+
+        action =
+          (this.#options.onBeforeOrderScrape(order.id, new Date(order.date)) as
+            | OrderScrapeAction
+            | undefined) ?? "SCRAPE_ORDER";
+
+        if (action === "SCRAPE_ORDER") {
           await this.datastore.saveOrder(
             order,
             this.#options.user,
             url,
             rawContent,
           );
-          return order;
-        } catch (err) {
-          throw new InvoiceParsingFailedError(err.message, rawContent);
         }
+
+        return order;
       },
     );
 
-    this.onOrderScraped(order);
+    if (action === "SCRAPE_ORDER") {
+      this.onOrderScraped(order);
+    }
 
-    return { wasCached, order };
+    return { wasCached, order, action };
   }
 
   private async allInvoiceURLsCached(invoiceURLs: URL[]): Promise<boolean> {
@@ -467,11 +712,147 @@ export class Scraper {
     cacheAllowed = true,
     page?: Page,
   ): Promise<Order[]> {
-    let url: URL | undefined = new URL(
-      `/your-orders/orders?timeFilter=year-${year}`,
-      this.#options.root,
+    const {
+      id: marketplace,
+      ordersPath,
+      yearFilterParam,
+      yearFilterPrefix,
+      invoiceLinkSelector,
+      digitalOrdersPath,
+      digitalOrdersParams,
+      digitalYearFilterParam,
+      digitalInvoiceLinkSelector,
+      root,
+    } = this.marketplace;
+
+    const resumeFrom = this.#options.resume
+      ? (
+          await this.datastore.getScrapeProgress(
+            this.#options.user,
+            marketplace,
+          )
+        ).find((p) => p.year === year)
+      : undefined;
+
+    if (resumeFrom?.complete) {
+      this.verbose(`Year ${year} was already scraped, skipping`);
+      return [];
+    }
+
+    if (resumeFrom != null) {
+      this.verbose(
+        `Resuming year ${year} from page ${resumeFrom.pageIndex} of ${resumeFrom.list}`,
+      );
+    }
+
+    const missingBefore = this.#missingURLs.length;
+
+    const ordersURL = new URL(ordersPath, root);
+    ordersURL.searchParams.set(yearFilterParam, `${yearFilterPrefix}${year}`);
+
+    const progress: Omit<ScrapeProgress, "updatedAt"> = {
+      user: this.#options.user,
+      marketplace,
+      year,
+      list: "orders",
+      pageURL: ordersURL.toString(),
+      pageIndex: 1,
+      ordersScraped: resumeFrom?.ordersScraped ?? 0,
+      complete: false,
+    };
+
+    const orders =
+      resumeFrom?.list === "digital"
+        ? []
+        : await this.scrapeOrderList({
+            description: `orders for year ${year}`,
+            url: ordersURL,
+            invoiceLinkSelector,
+            emptyMeansSignedOut: true,
+            cacheAllowed,
+            page,
+            progress,
+            resumeFrom,
+          });
+
+    const digitalOrdersURL = new URL(digitalOrdersPath, root);
+    Object.entries(digitalOrdersParams).forEach(([name, value]) => {
+      digitalOrdersURL.searchParams.set(name, value);
+    });
+    digitalOrdersURL.searchParams.set(
+      digitalYearFilterParam,
+      `${yearFilterPrefix}${year}`,
     );
-    let pageIndex = 0;
+
+    Object.assign(progress, {
+      list: "digital",
+      pageURL: digitalOrdersURL.toString(),
+      pageIndex: 1,
+      lastInvoiceURL: undefined,
+    });
+
+    // Plenty of years have no digital orders, so an empty list here doesn't
+    // mean we've been signed out.
+    const digitalOrders =
+      this.#stopAction != null
+        ? []
+        : await this.scrapeOrderList({
+            description: `digital orders for year ${year}`,
+            url: digitalOrdersURL,
+            invoiceLinkSelector: digitalInvoiceLinkSelector,
+            emptyMeansSignedOut: false,
+            cacheAllowed,
+            page,
+            progress,
+            resumeFrom: resumeFrom?.list === "digital" ? resumeFrom : undefined,
+          });
+
+    const stoppedEarly = this.#stopAction != null;
+    if (this.#stopAction === "SKIP_YEAR") {
+      this.#stopAction = undefined;
+    }
+
+    // A year with pages missing from the cache still needs scraping online.
+    if (this.#missingURLs.length === missingBefore && !stoppedEarly) {
+      await this.saveScrapeProgress({ ...progress, complete: true });
+    }
+
+    return [...orders, ...digitalOrders];
+  }
+
+  /**
+   * Scrapes every order linked from a (possibly paginated) list of orders,
+   * recording `progress` as it goes. If `resumeFrom` is for this list,
+   * starts from its page, after its last invoice.
+   */
+  private async scrapeOrderList({
+    description,
+    url: firstPageURL,
+    invoiceLinkSelector,
+    emptyMeansSignedOut,
+    cacheAllowed,
+    page,
+    progress,
+    resumeFrom,
+  }: {
+    description: string;
+    url: URL;
+    invoiceLinkSelector: string;
+    emptyMeansSignedOut: boolean;
+    cacheAllowed: boolean;
+    page?: Page;
+    progress: Omit<ScrapeProgress, "updatedAt">;
+    resumeFrom?: ScrapeProgress;
+  }): Promise<Order[]> {
+    const { root } = this.marketplace;
+    const resuming = resumeFrom != null && resumeFrom.list === progress.list;
+    let url: URL | undefined = resuming
+      ? new URL(resumeFrom.pageURL)
+      : firstPageURL;
+    let pageIndex = resuming ? resumeFrom.pageIndex - 1 : 0;
+    let skipThroughInvoiceURL = resuming
+      ? resumeFrom.lastInvoiceURL
+      : undefined;
 
     const checkCache = async (key: string) => {
       if (!cacheAllowed) {
@@ -479,6 +860,14 @@ export class Scraper {
         return;
       }
 
+      if (await this.isCacheExpired(key, "orderList")) {
+        this.onCacheMiss(
+          key,
+          "Cached page is older than cacheMaxAge.orderList",
+        );
+        return;
+      }
+
       const value = await this.datastore.checkCache(key);
 
       if (value == null) {
@@ -497,54 +886,114 @@ export class Scraper {
 
     const findInvoiceURLs = (document: Document) => {
       return Array.from(
-        document.querySelectorAll<HTMLAnchorElement>(INVOICE_LINK_SELECTOR),
+        document.querySelectorAll<HTMLAnchorElement>(invoiceLinkSelector),
       )
         .map((a) => a.href)
-        .map((url) => new URL(url, this.#options.root));
+        .map((url) => new URL(url, root));
     };
 
-    const NEXT_PAGE_LINK_SELECTOR = "li.a-last a";
-
     const allOrders: Order[] = [];
 
-    while (url != null) {
+    while (url != null && this.#stopAction == null) {
       pageIndex++;
-      this.verbose(`Scraping page ${pageIndex} of orders for year ${year}`);
+      this.verbose(`Scraping page ${pageIndex} of ${description}`);
 
-      const [invoiceURLs, nextPageURL] = await this.parsePageContent(
-        {
-          url,
-          checkCache,
-          updateCache,
-          page,
-        },
-        async (url, document, _, page) => {
-          const invoiceURLs = findInvoiceURLs(document);
-
-          if (invoiceURLs.length === 0) {
-            throw new SignInRequiredError(
-              `No invoices found on ${url.toString()}`,
-              document.documentElement.outerHTML,
-              page,
-            );
-          }
+      Object.assign(progress, {
+        pageURL: url.toString(),
+        pageIndex,
+        lastInvoiceURL: undefined,
+      });
+      await this.saveScrapeProgress(progress);
+
+      const listing = await this.skipIfNotCached(() =>
+        this.parsePageContent(
+          {
+            url: url!,
+            checkCache,
+            updateCache,
+            page,
+          },
+          async (url, document, _, page) => {
+            const invoiceURLs = findInvoiceURLs(document);
+
+            if (invoiceURLs.length === 0 && emptyMeansSignedOut) {
+              throw new SignInRequiredError(
+                `No invoices found on ${url.toString()}`,
+                document.documentElement.outerHTML,
+                page,
+              );
+            }
+
+            let nextPageURL = document.querySelector<HTMLAnchorElement>(
+              this.marketplace.nextPageLinkSelector,
+            )?.href;
+
+            return [
+              invoiceURLs,
+              nextPageURL == null ? undefined : new URL(nextPageURL, url),
+            ] as const;
+          },
+        ),
+      );
 
-          let nextPageURL = document.querySelector<HTMLAnchorElement>(
-            NEXT_PAGE_LINK_SELECTOR,
-          )?.href;
+      if (listing == null) {
+        break;
+      }
 
-          return [
-            invoiceURLs,
-            nextPageURL == null ? undefined : new URL(nextPageURL, url),
-          ];
-        },
-      );
+      const [foundInvoiceURLs, nextPageURL] = listing;
+
+      const skipCount =
+        foundInvoiceURLs.findIndex(
+          (invoiceURL) => invoiceURL.toString() === skipThroughInvoiceURL,
+        ) + 1;
+      const invoiceURLs = foundInvoiceURLs.slice(skipCount);
+      skipThroughInvoiceURL = undefined;
+
+      if (skipCount > 0) {
+        this.verbose(`Skipping ${skipCount} invoice(s) scraped last time`);
+      }
 
       await invoiceURLs.reduce<Promise<void>>(
         (promise, invoiceURL) =>
           promise.then(async () => {
-            const { order } = await this.scrapeOrder(invoiceURL);
-            allOrders.push(order);
+            if (this.#stopAction != null) {
+              return;
+            }
+
+            const result = await this.skipIfNotCached(() =>
+              this.scrapeOrder(invoiceURL),
+            );
+
+            if (result == null) {
+              return;
+            }
+
+            switch (result.action) {
+              case "SCRAPE_ORDER":
+                allOrders.push(result.order);
+                progress.ordersScraped++;
+                break;
+
+              case "SKIP_ORDER":
+                this.verbose(`Skipping order ${result.order.id}`);
+                break;
+
+              case "SKIP_YEAR":
+              case "STOP_SCRAPING":
+                this.verbose(
+                  `Stopping at order ${result.order.id} (${result.action})`,
+                );
+                this.#stopAction = result.action;
+                return;
+
+              default:
+                throw new Error(
+                  `Unknown action "${result.action}" for order ${result.order.id}`,
+                );
+            }
+
+            progress.lastInvoiceURL = invoiceURL.toString();
+            await this.saveScrapeProgress(progress);
           }),
         Promise.resolve(),
       );
@@ -555,6 +1004,116 @@ export class Scraper {
     return allOrders;
   }
 
+  /**
+   * Invoice links on the order list can differ from getInvoiceURL() (e.g. in
+   * their query string), so an invoice that has been scraped before should be
+   * fetched from the same URL again, replacing its cache entry rather than
+   * adding a second one.
+   * @returns The URLs of the current user's cached and stored invoices, by
+   *          order ID.
+   */
+  private async getKnownInvoiceURLs(): Promise<Map<string, URL>> {
+    const { origin } = new URL(this.marketplace.root);
+    const urls = new Map<string, URL>();
+
+    (await this.datastore.getCacheKeys()).forEach((key) => {
+      const parsed = parseCacheKey(key);
+      if (
+        parsed?.user !== this.#options.user ||
+        parsed.url.origin !== origin ||
+        !isInvoiceURL(parsed.url)
+      ) {
+        return;
+      }
+
+      const orderID = parsed.url.searchParams.get("orderID");
+      if (orderID != null) {
+        urls.set(orderID, parsed.url);
+      }
+    });
+
+    (await this.datastore.getStoredInvoices()).forEach((invoice) => {
+      if (
+        invoice.user === this.#options.user &&
+        invoice.invoiceURL.origin === origin
+      ) {
+        urls.set(invoice.orderID, invoice.invoiceURL);
+      }
+    });
+
+    return urls;
+  }
+
+  /**
+   * Years with an order list page in the cache.
+   */
+  private async getCachedYears(): Promise<number[]> {
+    const { origin } = new URL(this.marketplace.root);
+    const years = new Set<number>();
+
+    (await this.datastore.getCacheKeys()).forEach((key) => {
+      const parsed = parseCacheKey(key);
+      if (parsed?.user !== this.#options.user || parsed.url.origin !== origin) {
+        return;
+      }
+
+      const year = getOrderListYear(parsed.url);
+      if (year != null) {
+        years.add(year);
+      }
+    });
+
+    return Array.from(years).sort((a, b) => b - a);
+  }
+
+  /**
+   * @returns Whether the cached page for `key` is older than the
+   *          cacheMaxAge configured for its type.
+   */
+  private async isCacheExpired(
+    key: string,
+    type: ExpiringCachePageType,
+  ): Promise<boolean> {
+    const maxAge = (await this.config).cacheMaxAge?.[type];
+    if (maxAge == null) {
+      return false;
+    }
+
+    const updatedAt = await this.datastore.getCacheUpdatedAt(key);
+    return updatedAt != null && Date.now() - updatedAt.getTime() > maxAge;
+  }
+
+  /**
+   * Offline, pages missing from the cache are recorded and skipped rather
+   * than failing the whole scrape.
+   */
+  private async skipIfNotCached<T>(
+    func: () => Promise<T>,
+  ): Promise<T | undefined> {
+    try {
+      return await func();
+    } catch (err) {
+      if (err instanceof PageNotCachedError) {
+        this.verbose(err.message);
+        this.#missingURLs.push(err.url);
+        return;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Offline scrapes don't record progress: a year rebuilt from the cache
+   * hasn't been checked against Amazon, so `--resume` shouldn't skip it.
+   */
+  private async saveScrapeProgress(
+    progress: Omit<ScrapeProgress, "updatedAt">,
+  ): Promise<void> {
+    if (!this.#options.offline) {
+      await this.datastore.saveScrapeProgress(progress);
+    }
+  }
+
   private async withBrowser<T>(
     url: URL | string,
     func: (page: Page) => Promise<T>,
@@ -594,19 +1153,31 @@ export class Scraper {
   get context(): Promise<BrowserContext> {
     this.#contextPromise =
       this.#contextPromise ??
-      chromium.launchPersistentContext(this.profileDir, {
-        headless: this.#options.headless,
-        executablePath:
-          "/Applications/Google\ Chrome.app/Contents/MacOS/Google\ Chrome",
-      });
+      this.config.then((config) =>
+        launchBrowser(this.profileDir, {
+          headless: this.#options.headless,
+          browserPath: this.#options.browserPath,
+          config,
+        }),
+      );
 
     return this.#contextPromise;
   }
 
+  get config(): Promise<Config> {
+    this.#configPromise =
+      this.#configPromise ?? loadConfig(this.#options.dataDir);
+    return this.#configPromise;
+  }
+
   get debug() {
     return this.#options.debug;
   }
 
+  get marketplace(): Marketplace {
+    return this.#options.marketplace;
+  }
+
   get onCacheHit() {
     return this.#options.onCacheHit;
   }
@@ -0,0 +1,99 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import {
+  isAmazonLine,
+  parseStatementCSV,
+  parseStatementOFX,
+} from "./statements.ts";
+
+describe("#parseStatementCSV", () => {
+  it("treats the majority sign as charges", () => {
+    const csv = [
+      "Transaction Date,Post Date,Description,Category,Type,Amount",
+      "03/06/2024,03/07/2024,AMAZON MKTPL*AB12C3,Shopping,Sale,-26.50",
+      "03/08/2024,03/08/2024,Amzn.com/bill,Shopping,Sale,-0.50",
+      "03/10/2024,03/10/2024,Payment Thank You,,Payment,100.00",
+    ].join("\n");
+
+    const lines = parseStatementCSV(csv);
+
+    assert.deepStrictEqual(
+      lines.map((l) => [l.date, l.amountCents]),
+      [
+        ["2024-03-06", 2650],
+        ["2024-03-08", 50],
+        ["2024-03-10", -10000],
+      ],
+    );
+    assert.deepStrictEqual(lines.map(isAmazonLine), [true, true, false]);
+  });
+
+  it("supports separate debit and credit columns and card numbers", () => {
+    const csv = [
+      "Posted Date,Description,Card No.,Debit,Credit",
+      '2024-03-06,"AMAZON.COM, SEATTLE",1234,26.50,',
+      "2024-03-07,AMAZON REFUND,1234,,5.00",
+    ].join("\n");
+
+    assert.deepStrictEqual(parseStatementCSV(csv), [
+      {
+        date: "2024-03-06",
+        description: "AMAZON.COM, SEATTLE",
+        amount: "26.50",
+        amountCents: 2650,
+        last4: "1234",
+      },
+      {
+        date: "2024-03-07",
+        description: "AMAZON REFUND",
+        amount: "-5.00",
+        amountCents: -500,
+        last4: "1234",
+      },
+    ]);
+  });
+});
+
+describe("#parseStatementOFX", () => {
+  it("parses SGML-style transactions", () => {
+    const ofx = `
+OFXHEADER:100
+<OFX>
+<CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<CCACCTFROM><ACCTID>4111111111111234</CCACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240306120000[-5:EST]
+<TRNAMT>-26.50
+<NAME>AMAZON MKTPL*AB12C3
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240310
+<TRNAMT>100.00
+<NAME>PAYMENT
+<MEMO>THANK YOU
+</STMTTRN>
+</BANKTRANLIST>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+    assert.deepStrictEqual(parseStatementOFX(ofx), [
+      {
+        date: "2024-03-06",
+        description: "AMAZON MKTPL*AB12C3",
+        amount: "-26.50",
+        amountCents: 2650,
+        last4: "1234",
+      },
+      {
+        date: "2024-03-10",
+        description: "PAYMENT THANK YOU",
+        amount: "100.00",
+        amountCents: -10000,
+        last4: "1234",
+      },
+    ]);
+  });
+});
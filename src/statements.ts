@@ -0,0 +1,218 @@
+import { DateTime } from "luxon";
+import path from "node:path";
+import { parseCsv } from "./csv.ts";
+import { parseMonetaryAmount } from "./money.ts";
+
+/**
+ * A single line from a bank or credit card statement.
+ */
+export type StatementLine = {
+  date: string;
+  description: string;
+  amount: string;
+
+  /**
+   * Positive for charges, negative for credits (refunds, payments to the
+   * card), regardless of the sign convention used by the statement.
+   */
+  amountCents: number;
+  last4?: string;
+};
+
+const AMAZON_DESCRIPTION_PATTERN = /amazon|amzn|audible|kindle|prime video/i;
+
+const CSV_DATE_FORMATS = [
+  "yyyy-MM-dd",
+  "M/d/yyyy",
+  "M/d/yy",
+  "M-d-yyyy",
+  "d MMM yyyy",
+  "MMM d, yyyy",
+];
+
+const CSV_HEADERS = {
+  date: [
+    "transaction date",
+    "trans. date",
+    "trans date",
+    "date",
+    "posted date",
+    "post date",
+    "posting date",
+  ],
+  description: ["description", "name", "payee", "merchant", "details", "memo"],
+  amount: ["amount", "transaction amount"],
+  debit: ["debit", "debit amount", "withdrawal"],
+  credit: ["credit", "credit amount", "deposit"],
+  last4: ["card no.", "card number", "card", "last 4", "last4", "account"],
+};
+
+export function isAmazonLine(line: StatementLine): boolean {
+  return AMAZON_DESCRIPTION_PATTERN.test(line.description);
+}
+
+/**
+ * Parses a statement, picking the format based on the file name and
+ * contents.
+ */
+export function parseStatement(
+  content: string,
+  filename: string,
+): StatementLine[] {
+  const ext = path.extname(filename).toLowerCase();
+
+  if ([".ofx", ".qfx"].includes(ext) || /<OFX>/i.test(content)) {
+    return parseStatementOFX(content);
+  }
+
+  return parseStatementCSV(content);
+}
+
+export function parseStatementCSV(content: string): StatementLine[] {
+  const [headerRow, ...rows] = parseCsv(content);
+
+  if (headerRow == null) {
+    return [];
+  }
+
+  const headers = headerRow.map((h) => h.trim().toLowerCase());
+  const findColumn = (names: string[]) => {
+    for (const name of names) {
+      const index = headers.indexOf(name);
+      if (index >= 0) {
+        return index;
+      }
+    }
+    return -1;
+  };
+
+  const dateColumn = findColumn(CSV_HEADERS.date);
+  const descriptionColumn = findColumn(CSV_HEADERS.description);
+  const amountColumn = findColumn(CSV_HEADERS.amount);
+  const debitColumn = findColumn(CSV_HEADERS.debit);
+  const creditColumn = findColumn(CSV_HEADERS.credit);
+  const last4Column = findColumn(CSV_HEADERS.last4);
+
+  if (dateColumn < 0 || descriptionColumn < 0) {
+    throw new Error(
+      `Could not find date and description columns in statement header: ${headerRow.join(", ")}`,
+    );
+  }
+
+  if (amountColumn < 0 && debitColumn < 0 && creditColumn < 0) {
+    throw new Error(
+      `Could not find an amount column in statement header: ${headerRow.join(", ")}`,
+    );
+  }
+
+  const lines = rows.map((row): StatementLine => {
+    let amount: string;
+    let amountCents: number;
+
+    if (amountColumn >= 0) {
+      amount = row[amountColumn] ?? "";
+      amountCents = parseStatementAmount(amount);
+    } else {
+      const debit = row[debitColumn] ?? "";
+      const credit = row[creditColumn] ?? "";
+      amount = debit || `-${credit}`;
+      amountCents =
+        Math.abs(parseStatementAmount(debit)) -
+        Math.abs(parseStatementAmount(credit));
+    }
+
+    const line: StatementLine = {
+      date: parseStatementDate(row[dateColumn] ?? ""),
+      description: row[descriptionColumn] ?? "",
+      amount,
+      amountCents,
+    };
+
+    const last4 = /(\d{4})\D*$/.exec(row[last4Column] ?? "")?.[1];
+    if (last4 != null) {
+      line.last4 = last4;
+    }
+
+    return line;
+  });
+
+  // A single amount column might use either sign for charges. Most lines on
+  // a card statement are charges, so go with the majority.
+  if (amountColumn >= 0) {
+    const negativeCount = lines.filter((l) => l.amountCents < 0).length;
+    if (negativeCount > lines.length / 2) {
+      lines.forEach((line) => {
+        line.amountCents = -line.amountCents;
+      });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Parses the transactions out of an OFX (or QFX) file. Both the SGML (OFX 1.x)
+ * and XML (OFX 2.x) flavors are supported.
+ */
+export function parseStatementOFX(content: string): StatementLine[] {
+  const accountID = readOFXField(content, "ACCTID");
+  const last4 = accountID == null ? undefined : /(\d{4})$/.exec(accountID)?.[1];
+
+  const blocks =
+    content.match(
+      /<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi,
+    ) ?? [];
+
+  return blocks.map((block): StatementLine => {
+    const amount = readOFXField(block, "TRNAMT") ?? "";
+    const posted = readOFXField(block, "DTPOSTED") ?? "";
+    const name = readOFXField(block, "NAME");
+    const memo = readOFXField(block, "MEMO");
+
+    const date = DateTime.fromFormat(posted.slice(0, 8), "yyyyMMdd");
+    if (!date.isValid) {
+      throw new Error(`Invalid OFX transaction date: ${posted}`);
+    }
+
+    const line: StatementLine = {
+      date: date.toISODate(),
+      description: [name, memo].filter(Boolean).join(" "),
+      amount,
+      // OFX amounts are negative for money leaving the account
+      amountCents: -parseStatementAmount(amount),
+    };
+
+    if (last4 != null) {
+      line.last4 = last4;
+    }
+
+    return line;
+  });
+}
+
+function readOFXField(content: string, name: string): string | undefined {
+  const m = new RegExp(`<${name}>([^<\\r\\n]*)`, "i").exec(content);
+  return m?.[1].trim();
+}
+
+function parseStatementAmount(amount: string): number {
+  const trimmed = amount.trim();
+
+  if (trimmed === "") {
+    return 0;
+  }
+
+  // Accountants write negative numbers in parentheses: (12.34)
+  return parseMonetaryAmount(trimmed.replace(/^\((.*)\)$/, "-$1")).cents;
+}
+
+function parseStatementDate(input: string): string {
+  for (const format of CSV_DATE_FORMATS) {
+    const date = DateTime.fromFormat(input.trim(), format);
+    if (date.isValid) {
+      return date.toISODate();
+    }
+  }
+
+  throw new Error(`Unrecognized statement date: ${input}`);
+}
@@ -0,0 +1,263 @@
+import { parseArgs } from "node:util";
+import {
+  createCacheKey,
+  getCachePageType,
+  getOrderListYear,
+  parseCacheKey,
+} from "../cache.ts";
+import type { CacheEntry } from "../datastore.ts";
+import type { SubcommandOptions } from "../types.ts";
+import { parseDuration } from "../utils.ts";
+
+const USAGE = [
+  "Usage:",
+  "  cache list",
+  "  cache stats",
+  "  cache show <key>",
+  "  cache purge [--older-than=<duration>] [--dry-run]",
+  "  cache invalidate --year=<year> [--dry-run]",
+].join("\n");
+
+type CacheOptions = {
+  action: string | undefined;
+  keys: string[];
+  olderThan: number | undefined;
+  year: number | undefined;
+  dryRun: boolean;
+};
+
+/**
+ * Inspects and cleans up the cache of pages downloaded while scraping.
+ * `purge` and `invalidate` only touch the current --user's pages.
+ */
+export async function cache(options: SubcommandOptions): Promise<void> {
+  const { action, ...rest } = parseOptions(options.args);
+
+  switch (action) {
+    case "list":
+      return listEntries(options);
+
+    case "stats":
+      return printStats(options);
+
+    case "show":
+      return showEntry(options, rest);
+
+    case "purge":
+      return purge(options, rest);
+
+    case "invalidate":
+      return invalidate(options, rest);
+
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+async function listEntries({ datastore }: SubcommandOptions): Promise<void> {
+  (await datastore.getCacheEntries()).forEach(({ key, bytes, updatedAt }) => {
+    console.log(
+      [updatedAt.toISOString(), formatBytes(bytes).padStart(9), key].join(" "),
+    );
+  });
+}
+
+/**
+ * Prints the number and size of cached pages for each user and page type,
+ * then how much space compression and deduplication save.
+ */
+async function printStats({ datastore }: SubcommandOptions): Promise<void> {
+  const entries = await datastore.getCacheEntries();
+  const groups = new Map<string, { count: number; bytes: number }>();
+
+  entries.forEach(({ key, bytes }) => {
+    const parsed = parseCacheKey(key);
+    const group = [
+      parsed?.user ?? "(unknown)",
+      parsed == null ? "other" : getCachePageType(parsed.url),
+    ].join(" ");
+
+    const totals = groups.get(group) ?? { count: 0, bytes: 0 };
+    totals.count++;
+    totals.bytes += bytes;
+    groups.set(group, totals);
+  });
+
+  const row = (label: string, count: number, bytes: number) =>
+    `${label.padEnd(30)} ${String(count).padStart(7)} ${formatBytes(bytes).padStart(9)}`;
+
+  Array.from(groups.keys())
+    .sort()
+    .forEach((group) => {
+      const { count, bytes } = groups.get(group)!;
+      console.log(row(group, count, bytes));
+    });
+
+  console.log(
+    row(
+      "Total",
+      entries.length,
+      entries.reduce((sum, entry) => sum + entry.bytes, 0),
+    ),
+  );
+
+  // Includes invoices stored with orders, which share storage with the cache
+  const { bytes, storedBytes } = await datastore.getPageBodyStats();
+  const saved = bytes - storedBytes;
+  const percent = bytes === 0 ? 0 : Math.round((saved / bytes) * 100);
+
+  console.log(
+    `\nCached pages and invoices take up ${formatBytes(storedBytes)} (${formatBytes(bytes)} uncompressed), saving ${formatBytes(saved)} (${percent}%)`,
+  );
+}
+
+async function showEntry(
+  { datastore }: SubcommandOptions,
+  { keys }: Omit<CacheOptions, "action">,
+): Promise<void> {
+  if (keys.length !== 1) {
+    throw new Error(USAGE);
+  }
+
+  const value = await datastore.checkCache(keys[0]);
+
+  if (value == null) {
+    throw new Error(`Not in cache: ${keys[0]}`);
+  }
+
+  process.stdout.write(value);
+}
+
+/**
+ * Deletes the current user's cached pages, or just those older than
+ * --older-than.
+ */
+async function purge(
+  options: SubcommandOptions,
+  { olderThan, dryRun }: Omit<CacheOptions, "action">,
+): Promise<void> {
+  const cutoff = olderThan == null ? undefined : Date.now() - olderThan;
+
+  const entries = (await getUserEntries(options)).filter(
+    ({ updatedAt }) => cutoff == null || updatedAt.getTime() < cutoff,
+  );
+
+  await deleteEntries(options, entries, dryRun);
+}
+
+/**
+ * Deletes the current user's cached order lists and invoices for a year, so
+ * that the next scrape fetches them again.
+ */
+async function invalidate(
+  options: SubcommandOptions,
+  { year, dryRun }: Omit<CacheOptions, "action">,
+): Promise<void> {
+  if (year == null) {
+    throw new Error(USAGE);
+  }
+
+  const { datastore, user } = options;
+
+  const invoiceKeys = new Set(
+    (await datastore.getStoredInvoices())
+      .filter(
+        (invoice) =>
+          invoice.user === user && invoice.orderDate.startsWith(`${year}-`),
+      )
+      .map((invoice) => createCacheKey(user, invoice.invoiceURL)),
+  );
+
+  const entries = (await getUserEntries(options)).filter(
+    ({ key }) =>
+      invoiceKeys.has(key) ||
+      getOrderListYear(parseCacheKey(key)!.url) === year,
+  );
+
+  await deleteEntries(options, entries, dryRun);
+}
+
+async function getUserEntries({
+  datastore,
+  user,
+}: SubcommandOptions): Promise<CacheEntry[]> {
+  return (await datastore.getCacheEntries()).filter(
+    ({ key }) => parseCacheKey(key)?.user === user,
+  );
+}
+
+async function deleteEntries(
+  { datastore, info, verbose }: SubcommandOptions,
+  entries: CacheEntry[],
+  dryRun: boolean,
+): Promise<void> {
+  const bytes = formatBytes(entries.reduce((sum, e) => sum + e.bytes, 0));
+
+  entries.forEach(({ key }) => verbose(key));
+
+  if (dryRun) {
+    info(`Would delete ${entries.length} cache entries (${bytes})`);
+    return;
+  }
+
+  const deleted = await datastore.deleteCacheKeys(entries.map((e) => e.key));
+  info(`Deleted ${deleted} cache entries (${bytes})`);
+}
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function parseOptions(args: string[]): CacheOptions {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      "dry-run": {
+        type: "boolean",
+      },
+      "older-than": {
+        type: "string",
+      },
+      year: {
+        type: "string",
+      },
+    },
+    allowPositionals: true,
+    strict: true,
+  });
+
+  const [action, ...keys] = positionals;
+
+  let olderThan: number | undefined;
+  if (values["older-than"] != null) {
+    olderThan = parseDuration(values["older-than"]);
+    if (olderThan == null || olderThan < 0) {
+      throw new Error(`Invalid --older-than: ${values["older-than"]}`);
+    }
+  }
+
+  let year: number | undefined;
+  if (values.year != null) {
+    if (!/^\d{4}$/.test(values.year)) {
+      throw new Error(`Invalid --year: ${values.year}`);
+    }
+    year = parseInt(values.year, 10);
+  }
+
+  return {
+    action,
+    keys,
+    olderThan,
+    year,
+    dryRun: !!values["dry-run"],
+  };
+}
@@ -0,0 +1,246 @@
+import assert from "node:assert";
+import { beforeEach, describe, it, mock } from "node:test";
+import { parseCsv } from "../csv.ts";
+import { DataStore } from "../datastore.ts";
+import type { Order, SubcommandOptions } from "../types.ts";
+import { orders } from "./orders.ts";
+
+const ORDER: Order = {
+  id: "123-4567890-1234567",
+  currency: "$",
+  date: "2024-03-05",
+  payments: [
+    {
+      type: "credit_card",
+      cardType: "Visa",
+      last4: "1234",
+      date: "2024-03-06",
+      amount: "$20.00",
+      amountCents: 2000,
+    },
+    {
+      type: "gift_card",
+      date: "2024-03-05",
+      amount: "$6.50",
+      amountCents: 650,
+    },
+  ],
+  shipments: [
+    {
+      items: [
+        {
+          name: "HDMI cable",
+          price: "$10.00",
+          priceCents: 1000,
+          quantity: 2,
+        },
+        {
+          name: "USB charger",
+          price: "$5.00",
+          priceCents: 500,
+          quantity: 1,
+        },
+      ],
+      date: "2024-03-06",
+    },
+  ],
+  shippingCost: "$0.00",
+  shippingCostCents: 0,
+  subtotal: "$25.00",
+  subtotalCents: 2500,
+  tax: "$1.50",
+  taxCents: 150,
+  total: "$26.50",
+  totalCents: 2650,
+};
+
+const OTHER_ORDER: Order = {
+  ...ORDER,
+  id: "111-2222222-3333333",
+  date: "2024-04-01",
+  payments: [
+    {
+      type: "gift_card",
+      date: "2024-04-01",
+      amount: "$12.00",
+      amountCents: 1200,
+    },
+  ],
+  shipments: [
+    {
+      items: [
+        { name: "Notebook", price: "$12.00", priceCents: 1200, quantity: 1 },
+      ],
+    },
+  ],
+  subtotal: "$12.00",
+  subtotalCents: 1200,
+  tax: "$0.00",
+  taxCents: 0,
+  total: "$12.00",
+  totalCents: 1200,
+};
+
+const DIGITAL_ORDER: Order = {
+  ...OTHER_ORDER,
+  id: "D01-1234567-1234567",
+  digital: true,
+  payments: [
+    {
+      type: "credit_card",
+      cardType: "Visa",
+      last4: "1234",
+      date: "2024-04-01",
+      amount: "$12.00",
+      amountCents: 1200,
+    },
+  ],
+  shipments: [
+    {
+      items: [
+        {
+          name: "The Example Book",
+          price: "$12.00",
+          priceCents: 1200,
+          quantity: 1,
+        },
+      ],
+    },
+  ],
+};
+
+const INVOICE_URL = new URL("https://www.amazon.com/gp/css/summary/print.html");
+
+let datastore: DataStore;
+
+beforeEach(async () => {
+  datastore = new DataStore(":memory:");
+  await datastore.saveOrder(ORDER, "default", INVOICE_URL, "");
+  await datastore.saveOrder(OTHER_ORDER, "default", INVOICE_URL, "");
+});
+
+/**
+ * Runs the orders subcommand with `args`.
+ * @returns Everything it wrote with console.log().
+ */
+async function runOrders(args: string[]): Promise<string> {
+  const lines: string[] = [];
+  const log = mock.method(console, "log", (line: string) => lines.push(line));
+
+  try {
+    await orders({ args, datastore } as unknown as SubcommandOptions);
+  } finally {
+    log.mock.restore();
+  }
+
+  return lines.join("\n");
+}
+
+describe("#orders", () => {
+  describe("--format=text", () => {
+    it("writes each order with its items and payments", async () => {
+      const output = await runOrders([ORDER.id]);
+      assert.deepStrictEqual(output.split("\n"), [
+        "2024-03-05 123-4567890-1234567 $25.00 $1.50 $0.00 $26.50",
+        "  Shipped: 2024-03-06",
+        "    HDMI cable $10.00",
+        "    USB charger $5.00",
+        "  Paid: 2024-03-06 $20.00",
+        "  Paid: 2024-03-05 $6.50",
+      ]);
+    });
+
+    it("leaves out the shipping date of digital orders", async () => {
+      await datastore.saveOrder(DIGITAL_ORDER, "default", INVOICE_URL, "");
+
+      const output = await runOrders([DIGITAL_ORDER.id]);
+      assert.deepStrictEqual(output.split("\n"), [
+        "2024-04-01 D01-1234567-1234567 $12.00 $0.00 $0.00 $12.00 (digital)",
+        "    The Example Book $12.00",
+        "  Paid: 2024-04-01 $12.00",
+      ]);
+    });
+  });
+
+  describe("--format=json", () => {
+    it("writes an array of orders", async () => {
+      const output = await runOrders(["--format=json"]);
+      assert.deepStrictEqual(JSON.parse(output), [ORDER, OTHER_ORDER]);
+    });
+
+    it("applies filters", async () => {
+      const output = await runOrders(["--format=json", "--total=12.00"]);
+      assert.deepStrictEqual(JSON.parse(output), [OTHER_ORDER]);
+    });
+  });
+
+  describe("--format=ndjson", () => {
+    it("writes one order per line", async () => {
+      const output = await runOrders(["--format=ndjson"]);
+      assert.deepStrictEqual(
+        output.split("\n").map((line) => JSON.parse(line)),
+        [ORDER, OTHER_ORDER],
+      );
+    });
+
+    it("only writes the orders given by ID", async () => {
+      const output = await runOrders(["--format=ndjson", OTHER_ORDER.id]);
+      assert.deepStrictEqual(
+        output.split("\n").map((line) => JSON.parse(line)),
+        [OTHER_ORDER],
+      );
+    });
+  });
+
+  describe("--format=csv", () => {
+    async function runCsv(args: string[]): Promise<string[][]> {
+      const chunks: string[] = [];
+      const write = mock.method(process.stdout, "write", (chunk: string) =>
+        chunks.push(chunk),
+      );
+
+      try {
+        await runOrders(["--format=csv", ...args]);
+      } finally {
+        write.mock.restore();
+      }
+
+      return parseCsv(chunks.join(""));
+    }
+
+    it("writes one row per order by default", async () => {
+      const [header, ...rows] = await runCsv([]);
+      assert.equal(header[0], "order_id");
+      assert.deepStrictEqual(
+        rows.map((row) => row[0]),
+        [ORDER.id, OTHER_ORDER.id],
+      );
+    });
+
+    it("writes one row per item with --rows=items", async () => {
+      const [header, ...rows] = await runCsv(["--rows=items"]);
+      const name = header.indexOf("name");
+      assert.deepStrictEqual(
+        rows.map((row) => row[name]),
+        ["HDMI cable", "USB charger", "Notebook"],
+      );
+    });
+
+    it("writes one row per payment with --rows=payments", async () => {
+      const [header, ...rows] = await runCsv(["--rows=payments"]);
+      const columns = ["type", "last4", "amount"].map((c) => header.indexOf(c));
+      assert.deepStrictEqual(
+        rows.map((row) => columns.map((c) => row[c])),
+        [
+          ["credit_card", "1234", "20.00"],
+          ["gift_card", "", "6.50"],
+          ["gift_card", "", "12.00"],
+        ],
+      );
+    });
+
+    it("rejects unknown --rows", async () => {
+      await assert.rejects(() => runCsv(["--rows=shipments"]), /--rows/);
+    });
+  });
+});
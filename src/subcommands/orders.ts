@@ -1,11 +1,60 @@
 import { parseArgs } from "node:util";
+import { createCsvOutput } from "../csv.ts";
+import type { OrderFilters } from "../datastore.ts";
 import { getContentChunks } from "../invoice-parser/html.ts";
-import {
-  formatMonetaryAmount,
-  monetaryAmountsEqual,
-  parseMonetaryAmount,
-} from "../money.ts";
-import type { SubcommandOptions } from "../types.ts";
+import { formatDecimalAmount, Money } from "../money.ts";
+import type { Order, Payment, SubcommandOptions } from "../types.ts";
+import { parseDateOption } from "../utils.ts";
+
+const PAYMENT_TYPES: Payment["type"][] = ["credit_card", "gift_card", "cash"];
+
+const FORMATS = ["text", "csv", "json", "ndjson"] as const;
+type Format = (typeof FORMATS)[number];
+
+const CSV_ROW_TYPES = ["orders", "items", "payments"] as const;
+type CsvRowType = (typeof CSV_ROW_TYPES)[number];
+
+const CSV_COLUMNS: Record<CsvRowType, string[]> = {
+  orders: [
+    "order_id",
+    "date",
+    "currency",
+    "subtotal",
+    "shipping",
+    "tax",
+    "discounts",
+    "total",
+    "item_count",
+    "placed_by",
+    "digital",
+    "refunded",
+    "net_total",
+  ],
+  items: [
+    "order_id",
+    "order_date",
+    "shipment_date",
+    "ship_to",
+    "name",
+    "quantity",
+    "price",
+    "currency",
+    "asin",
+    "product_url",
+    "sold_by",
+    "supplied_by",
+  ],
+  payments: [
+    "order_id",
+    "order_date",
+    "payment_date",
+    "type",
+    "card_type",
+    "last4",
+    "amount",
+    "currency",
+  ],
+};
 
 export async function orders({
   args,
@@ -20,54 +69,81 @@ export async function orders({
       charge: {
         type: "string",
       },
+      from: {
+        type: "string",
+      },
+      to: {
+        type: "string",
+      },
+      search: {
+        type: "string",
+      },
+      card: {
+        type: "string",
+      },
+      "payment-type": {
+        type: "string",
+      },
+      "ship-to": {
+        type: "string",
+      },
+      seller: {
+        type: "string",
+      },
       html: {
         type: "boolean",
       },
+      reparse: {
+        type: "boolean",
+      },
       tokens: {
         type: "boolean",
       },
+      format: {
+        type: "string",
+        default: "text",
+      },
+      rows: {
+        type: "string",
+        default: "orders",
+      },
     },
     allowPositionals: true,
     strict: true,
   });
 
-  let orders = await datastore.getOrders();
-
-  const total =
-    options.values.total == null
-      ? undefined
-      : parseMonetaryAmount(options.values.total);
+  const { format, rows } = options.values;
 
-  if (total != null) {
-    console.error(`Filtering by total: ${formatMonetaryAmount(total)}`);
-    orders = orders.filter(
-      (invoice) =>
-        invoice.total != null &&
-        monetaryAmountsEqual(invoice.total, total.cents),
+  if (!FORMATS.includes(format as Format)) {
+    throw new Error(
+      `Invalid --format: ${format}. Expected one of: ${FORMATS.join(", ")}`,
     );
   }
 
-  const charge =
-    options.values.charge == null
-      ? undefined
-      : parseMonetaryAmount(options.values.charge);
-
-  if (charge != null) {
-    charge.currency = charge.currency ?? "$";
-
-    console.error(`Filtering by charge: ${formatMonetaryAmount(charge)}`);
-    console.error(charge);
-    orders = orders.filter((invoice) =>
-      invoice.payments.some((payment) => {
-        return (
-          payment.amount != null && monetaryAmountsEqual(payment.amount, charge)
-        );
-      }),
+  if (!CSV_ROW_TYPES.includes(rows as CsvRowType)) {
+    throw new Error(
+      `Invalid --rows: ${rows}. Expected one of: ${CSV_ROW_TYPES.join(", ")}`,
     );
   }
 
-  if (options.positionals.length > 0) {
-    orders = orders.filter((order) => options.positionals.includes(order.id));
+  const orders = await datastore.getOrders({
+    filters: parseFilters(options.values, options.positionals),
+    reparse: options.values.reparse,
+  });
+
+  if (format === "csv") {
+    writeCsv(orders, rows as CsvRowType);
+    return;
+  }
+
+  if (format === "json") {
+    console.log(JSON.stringify(orders, null, 2));
+    return;
+  }
+
+  if (format === "ndjson") {
+    orders.forEach((order) => console.log(JSON.stringify(order)));
+    return;
   }
 
   await Promise.all(
@@ -93,19 +169,219 @@ export async function orders({
           order.tax,
           order.shippingCost,
           order.total,
+          ...(order.digital ? ["(digital)"] : []),
         ].join(" "),
       );
 
       order.shipments.forEach((shipment) => {
-        console.log(`  Shipped: ${shipment.date}`);
+        // Digital and gift card orders aren't shipped
+        if (shipment.date != null) {
+          console.log(`  Shipped: ${shipment.date}`);
+        }
+
         shipment.items.forEach((item) => {
-          console.log(`    ${item.name} ${item.price}`);
+          console.log(
+            [
+              `    ${item.name}`,
+              item.price,
+              item.asin && `[${item.asin}]`,
+              item.soldBy && `(sold by ${item.soldBy})`,
+            ]
+              .filter(Boolean)
+              .join(" "),
+          );
         });
       });
 
+      order.discounts?.forEach((discount) => {
+        console.log(`  ${discount.description}: -${discount.amount}`);
+      });
+
       order.payments.forEach((payment) => {
         console.log(`  Paid: ${payment.date} ${payment.amount}`);
       });
+
+      order.refunds?.forEach((refund) => {
+        const item = refund.itemName == null ? "" : ` (${refund.itemName})`;
+
+        if (refund.status === "pending") {
+          console.log(`  Return pending: ${refund.amount}${item}`);
+          return;
+        }
+
+        const to =
+          refund.last4 == null ? "" : ` to ${refund.cardType} ${refund.last4}`;
+        console.log(`  Refunded: ${refund.date} ${refund.amount}${to}${item}`);
+      });
+
+      if (order.refunds != null) {
+        console.log(`  Net: ${getNetTotal(order).format()}`);
+      }
     }),
   );
 }
+
+/**
+ * @returns The total of all completed refunds. Pending returns aren't
+ *          included since the money hasn't come back yet.
+ */
+function getRefunded(order: Order): Money {
+  return Money.sum(
+    (order.refunds ?? [])
+      .filter((refund) => refund.status === "refunded")
+      .map((refund) => new Money(refund.amountCents, order.currency)),
+    order.currency,
+  );
+}
+
+function getNetTotal(order: Order): Money {
+  return new Money(order.totalCents, order.currency).subtract(
+    getRefunded(order),
+  );
+}
+
+function parseFilters(
+  values: {
+    total?: string;
+    charge?: string;
+    from?: string;
+    to?: string;
+    search?: string;
+    card?: string;
+    "payment-type"?: string;
+    "ship-to"?: string;
+    seller?: string;
+  },
+  ids: string[],
+): OrderFilters {
+  const filters: OrderFilters = {};
+
+  if (ids.length > 0) {
+    filters.ids = ids;
+  }
+
+  if (values.total != null) {
+    console.error(`Filtering by total: ${values.total}`);
+    filters.total = Money.parse(values.total);
+  }
+
+  if (values.charge != null) {
+    console.error(`Filtering by charge: ${values.charge}`);
+    filters.charge = Money.parse(values.charge);
+  }
+
+  if (values.from != null) {
+    filters.from = parseDateOption("from", values.from);
+  }
+
+  if (values.to != null) {
+    filters.to = parseDateOption("to", values.to);
+  }
+
+  if (values.search != null) {
+    filters.search = values.search;
+  }
+
+  if (values.card != null) {
+    if (!/^\d{4}$/.test(values.card)) {
+      throw new Error(
+        `Invalid --card: ${values.card}. Expected the last 4 digits`,
+      );
+    }
+    filters.card = values.card;
+  }
+
+  const paymentType = values["payment-type"];
+  if (paymentType != null) {
+    if (!PAYMENT_TYPES.includes(paymentType as Payment["type"])) {
+      throw new Error(
+        `Invalid --payment-type: ${paymentType}. Expected one of: ${PAYMENT_TYPES.join(", ")}`,
+      );
+    }
+    filters.paymentType = paymentType as Payment["type"];
+  }
+
+  if (values["ship-to"] != null) {
+    filters.shipTo = values["ship-to"];
+  }
+
+  if (values.seller != null) {
+    filters.seller = values.seller;
+  }
+
+  return filters;
+}
+
+function writeCsv(orders: Order[], rowType: CsvRowType) {
+  const outputRow = createCsvOutput(CSV_COLUMNS[rowType]);
+
+  orders.forEach((order) => {
+    switch (rowType) {
+      case "orders":
+        outputRow({
+          order_id: order.id,
+          date: order.date,
+          currency: order.currency,
+          subtotal: formatDecimalAmount(order.subtotalCents, order.currency),
+          shipping:
+            order.shippingCostCents == null
+              ? undefined
+              : formatDecimalAmount(order.shippingCostCents, order.currency),
+          tax: formatDecimalAmount(order.taxCents, order.currency),
+          discounts: Money.sum(
+            (order.discounts ?? []).map(
+              (discount) => new Money(discount.amountCents, order.currency),
+            ),
+            order.currency,
+          ).formatDecimal(),
+          total: formatDecimalAmount(order.totalCents, order.currency),
+          item_count: order.shipments.reduce(
+            (count, shipment) =>
+              shipment.items.reduce((sum, item) => sum + item.quantity, count),
+            0,
+          ),
+          placed_by: order.placedBy,
+          digital: order.digital ? 1 : 0,
+          refunded: getRefunded(order).formatDecimal(),
+          net_total: getNetTotal(order).formatDecimal(),
+        });
+        break;
+
+      case "items":
+        order.shipments.forEach((shipment) => {
+          shipment.items.forEach((item) => {
+            outputRow({
+              order_id: order.id,
+              order_date: order.date,
+              shipment_date: shipment.date,
+              ship_to: shipment.shippingAddress?.name,
+              name: item.name,
+              quantity: item.quantity,
+              price: formatDecimalAmount(item.priceCents, order.currency),
+              currency: order.currency,
+              asin: item.asin,
+              product_url: item.productURL,
+              sold_by: item.soldBy,
+              supplied_by: item.suppliedBy,
+            });
+          });
+        });
+        break;
+
+      case "payments":
+        order.payments.forEach((payment) => {
+          outputRow({
+            order_id: order.id,
+            order_date: order.date,
+            payment_date: payment.date,
+            type: payment.type,
+            card_type: "cardType" in payment ? payment.cardType : undefined,
+            last4: "last4" in payment ? payment.last4 : undefined,
+            amount: formatDecimalAmount(payment.amountCents, order.currency),
+            currency: order.currency,
+          });
+        });
+        break;
+    }
+  });
+}
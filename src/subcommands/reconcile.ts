@@ -0,0 +1,127 @@
+import fs from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { reconcileStatementLines, type StatementPeriod } from "../reconcile.ts";
+import {
+  isAmazonLine,
+  parseStatement,
+  type StatementLine,
+} from "../statements.ts";
+import type { SubcommandOptions } from "../types.ts";
+import { parseDateOption } from "../utils.ts";
+
+const USAGE =
+  "Usage: reconcile [--card=1234] [--days=7] [--from=<date> --to=<date>] <statement...>";
+
+/**
+ * Matches the Amazon charges on one or more card statements (CSV or OFX) to
+ * payments in the datastore.
+ */
+export async function reconcile({
+  args,
+  datastore,
+  info,
+}: SubcommandOptions): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      card: {
+        type: "string",
+      },
+      days: {
+        type: "string",
+        default: "7",
+      },
+      from: {
+        type: "string",
+      },
+      to: {
+        type: "string",
+      },
+    },
+    allowPositionals: true,
+    strict: true,
+  });
+
+  if (positionals.length === 0) {
+    throw new Error(USAGE);
+  }
+
+  // Without the statement period, payments made after the last charge on
+  // the statement can't be told apart from ones on the next statement.
+  let period: StatementPeriod | undefined;
+  if (values.from != null || values.to != null) {
+    if (values.from == null || values.to == null) {
+      throw new Error(USAGE);
+    }
+    period = {
+      from: parseDateOption("from", values.from),
+      to: parseDateOption("to", values.to),
+    };
+  }
+
+  const maxDaysApart = parseInt(values.days, 10);
+  if (isNaN(maxDaysApart) || maxDaysApart < 0) {
+    throw new Error(`Invalid --days: ${values.days}`);
+  }
+
+  const card = values.card;
+  if (card != null && !/^\d{4}$/.test(card)) {
+    throw new Error(`Invalid --card: ${card}. Expected the last 4 digits`);
+  }
+
+  const lines: StatementLine[] = [];
+
+  for (const file of positionals) {
+    const content = await fs.readFile(file, "utf-8");
+    const fileLines = parseStatement(content, file).filter(isAmazonLine);
+    info(`Found ${fileLines.length} Amazon line(s) in ${file}`);
+
+    fileLines.forEach((line) => {
+      lines.push(
+        card == null || line.last4 != null ? line : { ...line, last4: card },
+      );
+    });
+  }
+
+  let orders = await datastore.getOrders();
+
+  if (card != null) {
+    orders = orders.map((order) => ({
+      ...order,
+      payments: order.payments.filter(
+        (payment) => "last4" in payment && payment.last4 === card,
+      ),
+    }));
+  }
+
+  const credits = lines.filter((line) => line.amountCents <= 0);
+  const { matched, unmatchedLines, unmatchedPayments } =
+    reconcileStatementLines(lines, orders, { maxDaysApart, period });
+
+  console.log(`Matched (${matched.length}):`);
+  matched.forEach(({ order, payment, lines }) => {
+    const amounts = lines.map((line) => line.amount.trim()).join(" + ");
+    console.log(
+      `  ${lines[0].date} ${amounts} ${lines[0].description} => ${order.id} (${payment.cardType} ${payment.last4}, paid ${payment.date} ${payment.amount})${lines.length > 1 ? " [split]" : ""}`,
+    );
+  });
+
+  console.log(`Charges with no order (${unmatchedLines.length}):`);
+  unmatchedLines.forEach((line) => {
+    console.log(`  ${line.date} ${line.amount.trim()} ${line.description}`);
+  });
+
+  console.log(`Payments with no statement line (${unmatchedPayments.length}):`);
+  unmatchedPayments.forEach(({ order, payment }) => {
+    console.log(
+      `  ${payment.date} ${payment.amount} ${order.id} (${payment.cardType} ${payment.last4})`,
+    );
+  });
+
+  if (credits.length > 0) {
+    console.log(`Credits, not reconciled (${credits.length}):`);
+    credits.forEach((line) => {
+      console.log(`  ${line.date} ${line.amount.trim()} ${line.description}`);
+    });
+  }
+}
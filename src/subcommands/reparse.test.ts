@@ -0,0 +1,145 @@
+import assert from "node:assert";
+import { beforeEach, describe, it, mock } from "node:test";
+import { createCacheKey } from "../cache.ts";
+import { DataStore } from "../datastore.ts";
+import { parseInvoiceHTML } from "../invoice-parser/main.ts";
+import { DEFAULT_MARKETPLACE, getInvoiceURL } from "../marketplaces.ts";
+import { MOCK_ORDERS } from "../testing/mock-orders.ts";
+import type { Order, SubcommandOptions } from "../types.ts";
+import { reparse } from "./reparse.ts";
+
+const UNCHANGED = MOCK_ORDERS[0];
+const CHANGED = MOCK_ORDERS[2];
+const CACHED_ONLY = MOCK_ORDERS[3];
+const BROKEN_ID = "112-0000001-0000009";
+const BROKEN_HTML = "<html><body><p>Something went wrong</p></body></html>";
+
+let datastore: DataStore;
+
+beforeEach(async () => {
+  datastore = new DataStore(":memory:");
+
+  await datastore.saveOrder(
+    parseInvoiceHTML(UNCHANGED.invoiceHTML),
+    "default",
+    invoiceURL(UNCHANGED.id),
+    UNCHANGED.invoiceHTML,
+  );
+
+  // Saved as an older parser might have read it
+  const changed = parseInvoiceHTML(CHANGED.invoiceHTML);
+  changed.shipments[0].items[0].name = "USB";
+  await datastore.saveOrder(
+    changed,
+    "default",
+    invoiceURL(CHANGED.id),
+    CHANGED.invoiceHTML,
+  );
+
+  // Parsed fine once, but the parser no longer understands the invoice
+  await datastore.saveOrder(
+    { ...parseInvoiceHTML(UNCHANGED.invoiceHTML), id: BROKEN_ID },
+    "default",
+    invoiceURL(BROKEN_ID),
+    BROKEN_HTML,
+  );
+
+  // Failed to parse when scraped, so it's only in the cache
+  await datastore.updateCache(
+    createCacheKey("default", invoiceURL(CACHED_ONLY.id)),
+    CACHED_ONLY.invoiceHTML,
+  );
+
+  await datastore.updateCache(
+    createCacheKey("default", invoiceURL("112-0000001-0000010")),
+    BROKEN_HTML,
+  );
+});
+
+function invoiceURL(orderID: string): URL {
+  return getInvoiceURL(DEFAULT_MARKETPLACE, orderID);
+}
+
+/**
+ * Runs the reparse subcommand with `args`.
+ * @returns Everything it wrote with console.log().
+ */
+async function runReparse(args: string[]): Promise<string[]> {
+  const lines: string[] = [];
+  const log = mock.method(console, "log", (line: string) => lines.push(line));
+  const noop = () => {};
+
+  try {
+    await reparse({
+      args,
+      datastore,
+      info: noop,
+      verbose: noop,
+    } as unknown as SubcommandOptions);
+  } finally {
+    log.mock.restore();
+  }
+
+  return lines;
+}
+
+async function getOrders(): Promise<Order[]> {
+  return datastore.getOrders({ applyTransactions: false });
+}
+
+describe("#reparse", () => {
+  it("reports changed, newly failing and newly succeeding orders", async () => {
+    assert.deepStrictEqual(await runReparse([]), [
+      "Changed (1 updated):",
+      `  ${CHANGED.id}`,
+      "Newly failing (1):",
+      `  ${BROKEN_ID}: Total not set`,
+      "Newly succeeding (1 updated):",
+      `  ${CACHED_ONLY.id}`,
+      "Unchanged: 1. Cached invoices still failing: 1.",
+    ]);
+  });
+
+  it("saves changed and newly succeeding orders", async () => {
+    await runReparse([]);
+
+    const orders = await getOrders();
+    assert.deepStrictEqual(
+      orders.map((order) => order.id).sort(),
+      [UNCHANGED.id, CHANGED.id, CACHED_ONLY.id, BROKEN_ID].sort(),
+    );
+    assert.equal(
+      orders.find((order) => order.id === CHANGED.id)?.shipments[0].items[0]
+        .name,
+      "USB charger",
+    );
+  });
+
+  it("only re-parses the orders given by ID", async () => {
+    assert.deepStrictEqual(await runReparse([CACHED_ONLY.id]), [
+      "Changed (0 updated):",
+      "Newly failing (0):",
+      "Newly succeeding (1 updated):",
+      `  ${CACHED_ONLY.id}`,
+      "Unchanged: 0. Cached invoices still failing: 1.",
+    ]);
+  });
+
+  describe("--dry-run", () => {
+    it("reports what would be updated", async () => {
+      const lines = await runReparse(["--dry-run"]);
+      assert.equal(lines[0], "Changed (1 would be updated):");
+      assert.equal(lines[4], "Newly succeeding (1 would be updated):");
+    });
+
+    it("doesn't save anything", async () => {
+      const before = await getOrders();
+      const cacheKeysBefore = await datastore.getCacheKeys();
+
+      await runReparse(["--dry-run"]);
+
+      assert.deepStrictEqual(await getOrders(), before);
+      assert.deepStrictEqual(await datastore.getCacheKeys(), cacheKeysBefore);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { isDeepStrictEqual, parseArgs } from "node:util";
+import { isInvoiceURL, parseCacheKey } from "../cache.ts";
+import { parseInvoiceHTML } from "../invoice-parser/main.ts";
+import type { Order, SubcommandOptions } from "../types.ts";
+
+type ReparseSummary = {
+  changed: string[];
+  newlyFailing: { id: string; reason: string }[];
+  newlySucceeding: string[];
+  unchanged: number;
+  stillFailing: number;
+};
+
+/**
+ * Re-runs the invoice parser over every stored invoice (and every invoice
+ * page in the cache) and saves the results, without talking to Amazon.
+ */
+export async function reparse({
+  args,
+  datastore,
+  info,
+  verbose,
+}: SubcommandOptions): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      "dry-run": {
+        type: "boolean",
+      },
+    },
+    allowPositionals: true,
+    strict: true,
+  });
+
+  const dryRun = !!values["dry-run"];
+  const shouldReparse = (id: string) =>
+    positionals.length === 0 || positionals.includes(id);
+
+  const summary: ReparseSummary = {
+    changed: [],
+    newlyFailing: [],
+    newlySucceeding: [],
+    unchanged: 0,
+    stillFailing: 0,
+  };
+
+  // Compare against the orders as they were parsed, not as filled in from
+  // transactions, since that's what re-parsing produces.
+  const storedOrders = new Map(
+    (await datastore.getOrders({ applyTransactions: false })).map((order) => [
+      order.id,
+      order,
+    ]),
+  );
+
+  const storedInvoices = (await datastore.getStoredInvoices()).filter(
+    ({ orderID }) => shouldReparse(orderID),
+  );
+
+  info(`Re-parsing ${storedInvoices.length} stored invoice(s)`);
+
+  for (const { orderID, user, invoiceURL } of storedInvoices) {
+    const html = (await datastore.getInvoiceHTML(orderID)) ?? "";
+    let order: Order;
+
+    try {
+      order = parseInvoiceHTML(html);
+    } catch (err) {
+      summary.newlyFailing.push({ id: orderID, reason: err.message });
+      continue;
+    }
+
+    if (ordersEqual(order, storedOrders.get(orderID))) {
+      summary.unchanged++;
+      continue;
+    }
+
+    verbose(`Order ${orderID} changed`);
+    summary.changed.push(orderID);
+
+    if (!dryRun) {
+      await datastore.saveOrder(order, user, invoiceURL, html);
+    }
+  }
+
+  // Invoices that never made it into the orders table (for example, because
+  // parsing failed when they were scraped) may still be in the cache.
+  const cachedInvoiceKeys = (await datastore.getCacheKeys()).filter((key) => {
+    const parsed = parseCacheKey(key);
+    return parsed != null && isInvoiceURL(parsed.url);
+  });
+
+  const seenOrderIDs = new Set(storedInvoices.map(({ orderID }) => orderID));
+
+  for (const key of cachedInvoiceKeys) {
+    const { user, url } = parseCacheKey(key)!;
+    const html = (await datastore.checkCache(key)) ?? "";
+    let order: Order;
+
+    try {
+      order = parseInvoiceHTML(html);
+    } catch (err) {
+      verbose(`Cached invoice ${url.toString()} still fails: ${err.message}`);
+      summary.stillFailing++;
+      continue;
+    }
+
+    if (
+      seenOrderIDs.has(order.id) ||
+      storedOrders.has(order.id) ||
+      !shouldReparse(order.id)
+    ) {
+      continue;
+    }
+
+    seenOrderIDs.add(order.id);
+    summary.newlySucceeding.push(order.id);
+
+    if (!dryRun) {
+      await datastore.saveOrder(order, user, url, html);
+    }
+  }
+
+  printSummary(summary, dryRun);
+}
+
+function ordersEqual(a: Order, b: Order | undefined): boolean {
+  // Round-trip through JSON so that keys explicitly set to `undefined` don't
+  // count as differences.
+  return isDeepStrictEqual(
+    JSON.parse(JSON.stringify(a)),
+    b == null ? undefined : JSON.parse(JSON.stringify(b)),
+  );
+}
+
+function printSummary(summary: ReparseSummary, dryRun: boolean) {
+  const verb = dryRun ? "would be updated" : "updated";
+
+  console.log(`Changed (${summary.changed.length} ${verb}):`);
+  summary.changed.forEach((id) => console.log(`  ${id}`));
+
+  console.log(`Newly failing (${summary.newlyFailing.length}):`);
+  summary.newlyFailing.forEach(({ id, reason }) =>
+    console.log(`  ${id}: ${reason}`),
+  );
+
+  console.log(`Newly succeeding (${summary.newlySucceeding.length} ${verb}):`);
+  summary.newlySucceeding.forEach((id) => console.log(`  ${id}`));
+
+  console.log(
+    `Unchanged: ${summary.unchanged}. Cached invoices still failing: ${summary.stillFailing}.`,
+  );
+}
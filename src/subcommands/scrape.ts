@@ -1,6 +1,11 @@
 import readline from "node:readline/promises";
 import { parseArgs } from "node:util";
 import { saveFixtureHTML } from "../fixtures.ts";
+import {
+  AMAZON_ORDER_ID_PATTERN,
+  DIGITAL_ORDER_ID_PATTERN,
+} from "../invoice-parser/patterns.ts";
+import { DEFAULT_MARKETPLACE, type Marketplace } from "../marketplaces.ts";
 import {
   InvoiceParsingFailedError,
   Scraper,
@@ -10,6 +15,10 @@ import {
 import type { SubcommandOptions } from "../types.ts";
 import { parseDateInput } from "../utils.ts";
 
+const ORDER_ID_PATTERN = new RegExp(
+  `^(?:${AMAZON_ORDER_ID_PATTERN}|${DIGITAL_ORDER_ID_PATTERN})$`,
+);
+
 type ScrapeAttemptResult =
   | {
       complete: false;
@@ -29,7 +38,27 @@ export async function scrape(options: SubcommandOptions): Promise<void> {
   let scraper: Scraper | undefined;
   let headless = true;
 
-  const { from, to } = parseOptions(options.args);
+  const {
+    from,
+    to,
+    browserPath,
+    marketplace,
+    transactions,
+    resume,
+    offline,
+    status,
+    orderIDs,
+    stale,
+  } = parseOptions(options.args);
+
+  if (status) {
+    await printStatus(options, marketplace);
+    return;
+  }
+
+  // Specific orders are scraped straight from their invoices, whatever their
+  // dates.
+  const scrapingByID = orderIDs.length > 0 || stale;
   const scrapedOrderIDs = new Set<string>();
 
   try {
@@ -39,30 +68,32 @@ export async function scrape(options: SubcommandOptions): Promise<void> {
         createScraper({
           ...options,
           headless,
+          browserPath,
+          marketplace,
+          transactionsSince: transactions ? from : undefined,
+          resume,
+          offline,
 
           onBeforeOrderScrape: (id, date) => {
             if (scrapedOrderIDs.has(id)) {
               return "SKIP_ORDER";
             }
 
-            if (date > to) {
-              return "STOP_SCRAPING";
-            }
-
-            if (date < from) {
+            if (!scrapingByID && (date > to || date < from)) {
               return "SKIP_ORDER";
             }
 
             return "SCRAPE_ORDER";
           },
 
+          // Years are scraped newest first
           onBeforeYearScrape: (year) => {
             if (year > to.getFullYear()) {
-              return "STOP_SCRAPING";
+              return "SKIP_YEAR";
             }
 
             if (year < from.getFullYear()) {
-              return "SKIP_YEAR";
+              return "STOP_SCRAPING";
             }
 
             if (year === new Date().getFullYear()) {
@@ -79,12 +110,42 @@ export async function scrape(options: SubcommandOptions): Promise<void> {
           },
         });
 
-      const result = await attemptScrape(scraper);
+      const result = await attemptScrape(async () => {
+        if (!scrapingByID) {
+          await scraper!.scrape();
+          return;
+        }
+
+        let ids = orderIDs;
+
+        if (stale) {
+          const staleIDs = await scraper!.getStaleOrderIDs();
+          options.info(`Found ${staleIDs.length} stale order(s)`);
+          ids = Array.from(new Set([...ids, ...staleIDs]));
+        }
+
+        await scraper!.scrapeOrdersByID(
+          ids.filter((id) => !scrapedOrderIDs.has(id)),
+        );
+      });
+
+      if (offline) {
+        reportMissingURLs(options, scraper);
+      }
 
       if (result.complete) {
         return;
       }
 
+      if (offline) {
+        // Signing in or opening a browser won't help.
+        throw new Error(
+          "invoiceParsingFailed" in result
+            ? `Failed to parse cached invoice HTML: ${result.reason}`
+            : "Cached pages did not contain any orders. Try scraping without --offline.",
+        );
+      }
+
       if (headless) {
         // If headless scraping failed, close the scraper and try non-headless
         await closeScraper();
@@ -106,11 +167,11 @@ export async function scrape(options: SubcommandOptions): Promise<void> {
 
       if (!options.interactionAllowed) {
         throw new Error(
-          "You must sign in to Amazon.com, but --no-interaction has been specified.",
+          `You must sign in to ${marketplace.name}, but --no-interaction has been specified.`,
         );
       }
 
-      await promptForSignIn(options.rl);
+      await promptForSignIn(options.rl, marketplace);
 
       continue;
     }
@@ -128,9 +189,63 @@ export async function scrape(options: SubcommandOptions): Promise<void> {
   }
 }
 
-async function attemptScrape(scraper: Scraper): Promise<ScrapeAttemptResult> {
+/**
+ * Lists pages that an offline scrape skipped because they weren't cached.
+ */
+function reportMissingURLs(
+  { info, warn }: SubcommandOptions,
+  scraper: Scraper,
+): void {
+  const { missingURLs } = scraper;
+
+  if (missingURLs.length === 0) {
+    info("All pages were found in the cache");
+    return;
+  }
+
+  warn(`${missingURLs.length} page(s) were not in the cache:`);
+  missingURLs.forEach((url) => {
+    warn(`  ${url.toString()}`);
+  });
+}
+
+/**
+ * Prints how far scraping has got for each year (see ScrapeProgress).
+ */
+async function printStatus(
+  { datastore, user }: SubcommandOptions,
+  marketplace: Marketplace,
+): Promise<void> {
+  const progress = await datastore.getScrapeProgress(user, marketplace.id);
+
+  if (progress.length === 0) {
+    console.log(`No scrapes recorded for ${marketplace.name}`);
+    return;
+  }
+
+  progress.forEach((p) => {
+    const state = p.complete
+      ? "complete"
+      : `stopped on page ${p.pageIndex} of ${p.list === "digital" ? "digital orders" : "orders"}`;
+
+    console.log(
+      `${p.year}: ${state}, ${p.ordersScraped} order(s) scraped (updated ${p.updatedAt})`,
+    );
+
+    if (!p.complete) {
+      console.log(`  Page: ${p.pageURL}`);
+      if (p.lastInvoiceURL != null) {
+        console.log(`  Last invoice: ${p.lastInvoiceURL}`);
+      }
+    }
+  });
+}
+
+async function attemptScrape(
+  doScrape: () => Promise<void>,
+): Promise<ScrapeAttemptResult> {
   try {
-    await scraper.scrape();
+    await doScrape();
     return { complete: true };
   } catch (err) {
     if (err instanceof SignInRequiredError) {
@@ -162,21 +277,35 @@ function createScraper(
       options.verbose(`Cache miss for ${key}: ${reason}`);
     },
     onOrderScraped(order) {
+      options.onOrderScraped?.(order);
       options.info(`Scraped order ${order.id}`);
+      order.warnings?.forEach((warning) => {
+        options.warn(`Order ${order.id}: ${warning.message}`);
+      });
     },
   });
 }
 
-async function promptForSignIn(rl: readline.Interface): Promise<void> {
+async function promptForSignIn(
+  rl: readline.Interface,
+  marketplace: Marketplace,
+): Promise<void> {
+  const box = (line: string) => `| ${line.padEnd(76)} |`;
+
   console.log(
-    `
-================================================================================
-| Amazon.com sign-in required.                                                 |
-|------------------------------------------------------------------------------|
-| This scraper can't log in for you. Please switch over to the browser and log |
-| yourself into Amazon.com. Then come back here and press Enter to continue.   |
-================================================================================
-`.trim(),
+    [
+      "=".repeat(80),
+      box(`${marketplace.name} sign-in required.`),
+      `|${"-".repeat(78)}|`,
+      box(
+        "This scraper can't log in for you. Please switch over to the browser and",
+      ),
+      box(
+        `log yourself into ${marketplace.name}. Then come back here and press Enter to`,
+      ),
+      box("continue."),
+      "=".repeat(80),
+    ].join("\n"),
   );
 
   await rl.question("");
@@ -185,20 +314,53 @@ async function promptForSignIn(rl: readline.Interface): Promise<void> {
 function parseOptions(args: string[]): {
   from: Date;
   to: Date;
+  browserPath: string | undefined;
+  marketplace: Marketplace;
+  transactions: boolean;
+  resume: boolean;
+  offline: boolean;
+  status: boolean;
+  orderIDs: string[];
+  stale: boolean;
 } {
-  const { values } = parseArgs({
-    allowPositionals: false,
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
     args,
     options: {
+      "browser-path": {
+        type: "string",
+      },
       from: {
         type: "string",
       },
+      offline: {
+        type: "boolean",
+      },
       to: {
         type: "string",
       },
+      resume: {
+        type: "boolean",
+      },
+      stale: {
+        type: "boolean",
+      },
+      transactions: {
+        type: "boolean",
+      },
     },
   });
 
+  const status = positionals.length === 1 && positionals[0] === "status";
+  const orderIDs = status ? [] : positionals;
+  const invalidIDs = orderIDs.filter((id) => !ORDER_ID_PATTERN.test(id));
+
+  if (invalidIDs.length > 0) {
+    throw new Error(
+      `Unexpected arguments: ${invalidIDs.join(" ")}. Pass "status" or order IDs like 123-4567890-1234567.`,
+    );
+  }
+
   const { from: rawFrom, to: rawTo } = values;
 
   let from = rawFrom == null ? undefined : parseDateInput(rawFrom, new Date());
@@ -217,5 +379,16 @@ function parseOptions(args: string[]): {
     [to, from] = [from, to];
   }
 
-  return { from, to };
+  return {
+    from,
+    to,
+    browserPath: values["browser-path"],
+    marketplace: DEFAULT_MARKETPLACE,
+    transactions: !!values.transactions,
+    resume: !!values.resume,
+    offline: !!values.offline,
+    status,
+    orderIDs,
+    stale: !!values.stale,
+  };
 }
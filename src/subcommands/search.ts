@@ -0,0 +1,63 @@
+import { parseArgs } from "node:util";
+import type { SubcommandOptions } from "../types.ts";
+
+/**
+ * Full-text search over the names of items in stored orders.
+ */
+export async function search({
+  args,
+  datastore,
+}: SubcommandOptions): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      limit: {
+        type: "string",
+        default: "20",
+      },
+    },
+    allowPositionals: true,
+    strict: true,
+  });
+
+  const query = positionals.join(" ").trim();
+  if (query === "") {
+    throw new Error("Usage: search [--limit=20] <query>");
+  }
+
+  const limit = parseInt(values.limit, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new Error(`Invalid --limit: ${values.limit}`);
+  }
+
+  const results = await datastore.searchItems(query, limit);
+
+  if (results.length === 0) {
+    console.error(`No items found matching ${JSON.stringify(query)}`);
+    return;
+  }
+
+  results.forEach((result) => {
+    console.log(
+      [
+        result.orderDate,
+        result.orderID,
+        result.price,
+        result.quantity > 1
+          ? `${result.quantity} x ${result.name}`
+          : result.name,
+      ].join(" "),
+    );
+
+    const shipment = [
+      result.shipmentDate == null
+        ? "Not shipped"
+        : `Shipped: ${result.shipmentDate}`,
+      result.shipTo == null ? undefined : `to ${result.shipTo}`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+    console.log(`  ${shipment}`);
+  });
+}
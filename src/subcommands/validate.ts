@@ -0,0 +1,51 @@
+import { parseArgs } from "node:util";
+import type { SubcommandOptions } from "../types.ts";
+import { validateOrder } from "../validation.ts";
+
+/**
+ * Checks stored orders for totals that don't add up and other signs that an
+ * invoice was parsed incorrectly.
+ */
+export async function validate({
+  args,
+  datastore,
+  info,
+}: SubcommandOptions): Promise<void> {
+  const { positionals } = parseArgs({
+    args,
+    options: {},
+    allowPositionals: true,
+    strict: true,
+  });
+
+  const orders = await datastore.getOrders({
+    filters: positionals.length > 0 ? { ids: positionals } : {},
+  });
+
+  const transactions = await datastore.getTransactions(
+    orders.map((order) => order.id),
+  );
+
+  let ordersWithWarnings = 0;
+
+  orders.forEach((order) => {
+    // Re-run validation rather than relying on stored warnings, so that
+    // orders saved before a check was added are covered too.
+    const warnings = validateOrder(order, transactions);
+
+    if (warnings.length === 0) {
+      return;
+    }
+
+    ordersWithWarnings++;
+
+    console.log(`${order.date} ${order.id}`);
+    warnings.forEach((warning) => {
+      console.log(`  ${warning.message} (${warning.code})`);
+    });
+  });
+
+  info(
+    `${ordersWithWarnings} of ${orders.length} order(s) have validation warnings`,
+  );
+}
@@ -0,0 +1,292 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { DEFAULT_MARKETPLACE, type Marketplace } from "../marketplaces.ts";
+
+/**
+ * An order served by MockAmazon.
+ */
+export type MockAmazonOrder = {
+  id: string;
+  date: string;
+  digital: boolean;
+  invoiceHTML: string;
+};
+
+export type MockAmazonOptions = {
+  orders: MockAmazonOrder[];
+
+  /**
+   * How many orders are listed on each page of the order history.
+   */
+  pageSize: number;
+
+  /**
+   * When false, every page redirects to the sign-in page until signIn() is
+   * called.
+   */
+  signedIn: boolean;
+};
+
+const DEFAULTS: Omit<MockAmazonOptions, "orders"> = {
+  pageSize: 10,
+  signedIn: true,
+};
+
+const SIGN_IN_PATH = "/ap/signin";
+const START_INDEX_PARAM = "startIndex";
+
+/**
+ * A fake Amazon order history, served on localhost, for testing Scraper
+ * without a real account. Point Scraper at it with `marketplace`. See
+ * MOCK_ORDERS and loadFixtureOrders() for orders to serve.
+ */
+export class MockAmazon {
+  #server: http.Server;
+  #options: MockAmazonOptions;
+  #requests: URL[] = [];
+  #signedIn: boolean;
+  #failuresRemaining = 0;
+
+  private constructor(server: http.Server, options: MockAmazonOptions) {
+    this.#server = server;
+    this.#options = options;
+    this.#signedIn = options.signedIn;
+  }
+
+  static async start(
+    options: Partial<MockAmazonOptions> & Pick<MockAmazonOptions, "orders">,
+  ): Promise<MockAmazon> {
+    let mock: MockAmazon | undefined;
+
+    const server = http.createServer((req, res) => {
+      mock!.handleRequest(req, res);
+    });
+
+    mock = new MockAmazon(server, { ...DEFAULTS, ...options });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(0, "127.0.0.1", () => resolve());
+    });
+
+    return mock;
+  }
+
+  get root(): string {
+    const { address, port } = this.#server.address() as AddressInfo;
+    return `http://${address}:${port}`;
+  }
+
+  get marketplace(): Marketplace {
+    return { ...DEFAULT_MARKETPLACE, root: this.root };
+  }
+
+  /**
+   * Every URL requested so far, in order.
+   */
+  get requests(): URL[] {
+    return [...this.#requests];
+  }
+
+  get orders(): MockAmazonOrder[] {
+    return [...this.#options.orders];
+  }
+
+  /**
+   * @returns The years that have orders, newest first.
+   */
+  get years(): number[] {
+    return Array.from(
+      new Set(this.#options.orders.map((o) => yearOf(o.date))),
+    ).sort((a, b) => b - a);
+  }
+
+  signIn() {
+    this.#signedIn = true;
+  }
+
+  signOut() {
+    this.#signedIn = false;
+  }
+
+  /**
+   * Makes the next `count` requests fail with an error page.
+   */
+  failNextRequests(count: number) {
+    this.#failuresRemaining = count;
+  }
+
+  close(): Promise<void> {
+    this.#server.closeAllConnections();
+    return new Promise((resolve, reject) => {
+      this.#server.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url ?? "/", this.root);
+    this.#requests.push(url);
+
+    if (url.pathname === SIGN_IN_PATH) {
+      sendHTML(res, 200, SIGN_IN_PAGE);
+      return;
+    }
+
+    if (!this.#signedIn) {
+      const signInURL = new URL(SIGN_IN_PATH, this.root);
+      signInURL.searchParams.set("openid.return_to", url.toString());
+      res.writeHead(302, { Location: signInURL.toString() });
+      res.end();
+      return;
+    }
+
+    if (this.#failuresRemaining > 0) {
+      this.#failuresRemaining--;
+      sendHTML(res, 503, ERROR_PAGE);
+      return;
+    }
+
+    const {
+      ordersPath,
+      digitalOrdersPath,
+      digitalOrdersParams,
+      invoicePath,
+      digitalInvoicePath,
+    } = this.marketplace;
+
+    if (url.pathname === ordersPath) {
+      sendHTML(res, 200, this.renderOrderList(url, false));
+      return;
+    }
+
+    const isDigitalList = Object.entries(digitalOrdersParams).every(
+      ([name, value]) => url.searchParams.get(name) === value,
+    );
+
+    if (url.pathname === digitalOrdersPath && isDigitalList) {
+      sendHTML(res, 200, this.renderOrderList(url, true));
+      return;
+    }
+
+    if (url.pathname === invoicePath || url.pathname === digitalInvoicePath) {
+      const order = this.#options.orders.find(
+        (o) => o.id === url.searchParams.get("orderID"),
+      );
+
+      if (order != null) {
+        sendHTML(res, 200, order.invoiceHTML);
+        return;
+      }
+    }
+
+    sendHTML(res, 404, NOT_FOUND_PAGE);
+  }
+
+  private renderOrderList(url: URL, digital: boolean): string {
+    const {
+      yearFilterParam,
+      yearFilterPrefix,
+      digitalYearFilterParam,
+      invoicePath,
+      digitalInvoicePath,
+    } = this.marketplace;
+    const filterParam = digital ? digitalYearFilterParam : yearFilterParam;
+    const filter = url.searchParams.get(filterParam) ?? "";
+    const year = filter.startsWith(yearFilterPrefix)
+      ? parseInt(filter.slice(yearFilterPrefix.length), 10)
+      : undefined;
+
+    const orders = this.#options.orders
+      .filter((o) => o.digital === digital && yearOf(o.date) === year)
+      .sort((a, b) => b.date.localeCompare(a.date));
+
+    const startIndex = parseInt(
+      url.searchParams.get(START_INDEX_PARAM) ?? "0",
+      10,
+    );
+    const { pageSize } = this.#options;
+    const pageOrders = orders.slice(startIndex, startIndex + pageSize);
+
+    const options = [
+      `<option value="last30">past 30 days</option>`,
+      ...this.years.map(
+        (y) =>
+          `<option value="${yearFilterPrefix}${y}"${y === year ? " selected" : ""}>${y}</option>`,
+      ),
+    ];
+
+    const cards = pageOrders.map((order) => {
+      const invoiceURL = new URL(
+        digital ? digitalInvoicePath : invoicePath,
+        this.root,
+      );
+      invoiceURL.searchParams.set("orderID", order.id);
+      // Like Amazon's, these links have more to them than getInvoiceURL()'s
+      invoiceURL.searchParams.set("ref", "ppx_yo2ov_dt_b_invoice");
+
+      return `
+        <div class="order-card">
+          <span>Order placed ${order.date}</span>
+          <span>Order # ${order.id}</span>
+          <a href="${invoiceURL.pathname}${invoiceURL.search}">View invoice</a>
+        </div>`;
+    });
+
+    let pagination = "";
+    if (startIndex + pageSize < orders.length) {
+      const nextURL = new URL(url);
+      nextURL.searchParams.set(
+        START_INDEX_PARAM,
+        String(startIndex + pageSize),
+      );
+      pagination = `
+        <ul class="a-pagination">
+          <li class="a-last"><a href="${nextURL.pathname}${nextURL.search}">Next</a></li>
+        </ul>`;
+    }
+
+    return `<!DOCTYPE html>
+<html>
+  <head><title>Your Orders</title></head>
+  <body>
+    <form method="get">
+      <select name="${filterParam}">${options.join("")}</select>
+    </form>
+    ${cards.join("")}
+    ${pagination}
+  </body>
+</html>`;
+  }
+}
+
+function yearOf(date: string): number {
+  return parseInt(date.slice(0, 4), 10);
+}
+
+function sendHTML(res: http.ServerResponse, status: number, html: string) {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(html);
+}
+
+const SIGN_IN_PAGE = `<!DOCTYPE html>
+<html>
+  <head><title>Amazon Sign-In</title></head>
+  <body>
+    <form method="post">
+      <label>Email or mobile phone number <input name="email"></label>
+      <button type="submit">Continue</button>
+    </form>
+  </body>
+</html>`;
+
+const ERROR_PAGE = `<!DOCTYPE html>
+<html>
+  <head><title>Sorry! Something went wrong!</title></head>
+  <body><p>Sorry! Something went wrong on our end.</p></body>
+</html>`;
+
+const NOT_FOUND_PAGE = `<!DOCTYPE html>
+<html>
+  <head><title>Page Not Found</title></head>
+  <body><p>Looking for something?</p></body>
+</html>`;
@@ -0,0 +1,47 @@
+import assert from "node:assert";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { parseInvoiceHTML } from "../invoice-parser/main.ts";
+import { loadFixtureOrders, MOCK_ORDERS } from "./mock-orders.ts";
+
+describe("MOCK_ORDERS", () => {
+  MOCK_ORDERS.forEach(({ id, date, digital, invoiceHTML }) => {
+    it(`has an invoice for ${id} that parses cleanly`, () => {
+      const order = parseInvoiceHTML(invoiceHTML);
+
+      assert.equal(order.id, id);
+      assert.equal(order.date, date);
+      assert.equal(order.digital === true, digital);
+      assert.equal(order.warnings, undefined);
+    });
+  });
+});
+
+describe("#loadFixtureOrders", () => {
+  it("loads invoices whose expected order can be read", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "aos-fixtures-"));
+    const [order] = MOCK_ORDERS;
+
+    try {
+      await fs.writeFile(path.join(dir, "invoice-a.html"), order.invoiceHTML);
+      await fs.writeFile(
+        path.join(dir, "invoice-a.json"),
+        JSON.stringify({ id: order.id, date: order.date }),
+      );
+
+      // Still encrypted
+      await fs.writeFile(path.join(dir, "invoice-b.html"), "\0GITCRYPT\0");
+      await fs.writeFile(path.join(dir, "invoice-b.json"), "\0GITCRYPT\0");
+
+      // Expected order not generated yet
+      await fs.writeFile(path.join(dir, "invoice-c.html"), order.invoiceHTML);
+      await fs.writeFile(path.join(dir, "invoice-c.json"), "{}\n");
+
+      assert.deepStrictEqual(await loadFixtureOrders(dir), [order]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
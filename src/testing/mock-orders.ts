@@ -0,0 +1,163 @@
+import { DateTime } from "luxon";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { Money } from "../money.ts";
+import type { Order } from "../types.ts";
+import type { MockAmazonOrder } from "./mock-amazon.ts";
+
+const FIXTURES_DIR = path.join(import.meta.dirname, "../..", "fixtures");
+
+/**
+ * Orders for MockAmazon to serve, with small synthetic invoices in the
+ * layouts the invoice parser understands. Every year has a regular order
+ * (a year with only digital orders looks like a sign-in page to Scraper),
+ * and 2023 has several, including a digital one, to page through.
+ */
+export const MOCK_ORDERS: MockAmazonOrder[] = [
+  physicalOrder("112-0000001-0000001", "2023-03-05", "HDMI cable", 1000),
+  digitalOrder("D01-0000001-0000002", "2023-06-10", "The Example Book", 999),
+  physicalOrder("112-0000001-0000003", "2023-11-01", "USB charger", 1500),
+  physicalOrder("112-0000001-0000004", "2022-02-02", "Notebook", 450),
+  physicalOrder("112-0000001-0000005", "2021-07-04", "Desk lamp", 2599),
+];
+
+/**
+ * Loads the real invoices in fixtures/ that have an expected order (the .json
+ * file next to each .html file), so MockAmazon can serve them. fixtures/ is
+ * encrypted in checkouts without the key, in which case this returns an empty
+ * array and MOCK_ORDERS has to do.
+ */
+export async function loadFixtureOrders(
+  fixturesDir: string = FIXTURES_DIR,
+): Promise<MockAmazonOrder[]> {
+  const files = (await fs.readdir(fixturesDir)).filter(
+    (file) => file.startsWith("invoice-") && file.endsWith(".html"),
+  );
+
+  const orders = await Promise.all(
+    files.map(async (file): Promise<MockAmazonOrder | undefined> => {
+      const htmlFile = path.join(fixturesDir, file);
+      const jsonFile = htmlFile.replace(/\.html$/, ".json");
+
+      let expected: Partial<Order>;
+      try {
+        expected = JSON.parse(await fs.readFile(jsonFile, "utf-8"));
+      } catch {
+        return;
+      }
+
+      if (expected.id == null || expected.date == null) {
+        return;
+      }
+
+      return {
+        id: expected.id,
+        date: expected.date,
+        digital: expected.digital === true,
+        invoiceHTML: await fs.readFile(htmlFile, "utf-8"),
+      };
+    }),
+  );
+
+  return orders.filter((order) => order != null);
+}
+
+function physicalOrder(
+  id: string,
+  date: string,
+  itemName: string,
+  priceCents: number,
+): MockAmazonOrder {
+  const price = new Money(priceCents, "$").format();
+  const placed = formatDate(date);
+  const shipped = formatDate(DateTime.fromISO(date).plus({ days: 1 }));
+
+  return {
+    id,
+    date,
+    digital: false,
+    invoiceHTML: `<!DOCTYPE html>
+<html>
+  <body>
+    <b>Amazon.com - Order ${id}</b>
+    <table>
+      <tr><td><b>Order Placed:</b> ${placed}</td></tr>
+      <tr><td><b>Amazon.com order number:</b> ${id}</td></tr>
+      <tr><td><b>Order Total: ${price}</b></td></tr>
+    </table>
+    <table>
+      <tr><td><b>Shipped on ${shipped}</b></td></tr>
+      <tr><td><b>Items Ordered</b></td><td><b>Price</b></td></tr>
+      <tr>
+        <td>1 of: <i>${itemName}</i><br>Sold by: Amazon.com Services, Inc</td>
+        <td>${price}</td>
+      </tr>
+      <tr>
+        <td>
+          <b>Shipping Address:</b><br>Jane Doe<br>123 Main St<br>
+          Springfield, OR 97477<br>United States
+        </td>
+      </tr>
+      <tr><td><b>Shipping Speed:</b><br>Standard</td></tr>
+    </table>
+    <table>
+      <tr><td><b>Payment information</b></td></tr>
+      <tr><td><b>Payment Method:</b><br>Visa | Last digits: 1234</td></tr>
+      <tr><td>Item(s) Subtotal: ${price}</td></tr>
+      <tr><td>Shipping &amp; Handling: $0.00</td></tr>
+      <tr><td>Estimated tax to be collected: $0.00</td></tr>
+      <tr><td>Grand Total: ${price}</td></tr>
+      <tr><td><b>Credit Card transactions</b></td></tr>
+      <tr><td>Visa ending in 1234: ${shipped}: ${price}</td></tr>
+    </table>
+  </body>
+</html>`,
+  };
+}
+
+function digitalOrder(
+  id: string,
+  date: string,
+  itemName: string,
+  priceCents: number,
+): MockAmazonOrder {
+  const price = new Money(priceCents, "$").format();
+
+  return {
+    id,
+    date,
+    digital: true,
+    invoiceHTML: `<!DOCTYPE html>
+<html>
+  <body>
+    <h1>Digital Order: ${id}</h1>
+    <table>
+      <tr><td><b>Order Placed:</b> ${formatDate(date)}</td></tr>
+      <tr><td><b>Order Total:</b> ${price}</td></tr>
+    </table>
+    <table>
+      <tr><th>Items Ordered</th><th>Price</th></tr>
+      <tr>
+        <td>${itemName}<br>Sold By: Amazon.com Services LLC</td>
+        <td>${price}</td>
+      </tr>
+    </table>
+    <table>
+      <tr><td>Item(s) Subtotal: ${price}</td></tr>
+      <tr><td>Total Before Tax: ${price}</td></tr>
+      <tr><td>Tax Collected: $0.00</td></tr>
+      <tr><td>Grand Total: ${price}</td></tr>
+    </table>
+    <table>
+      <tr><td>Payment Method: Visa | Last digits: 1234</td></tr>
+    </table>
+  </body>
+</html>`,
+  };
+}
+
+function formatDate(date: string | DateTime): string {
+  return (typeof date === "string" ? DateTime.fromISO(date) : date).toFormat(
+    "MMMM d, yyyy",
+  );
+}
@@ -0,0 +1,145 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import {
+  applyTransactions,
+  parseTransactionsHTML,
+  type Transaction,
+} from "./transactions.ts";
+import type { Order } from "./types.ts";
+
+const TRANSACTIONS_HTML = `
+  <div>
+    <div>Completed</div>
+    <div>March 8, 2024</div>
+    <div>
+      <span>Visa ****1234</span>
+      <span>-$15.00</span>
+      <a href="/gp/css/summary/edit.html?orderID=123-4567890-1234567">Order #123-4567890-1234567</a>
+      <span>AMZN Mktp US</span>
+    </div>
+    <div>
+      <span>Visa ****1234</span>
+      <span>+$5.00</span>
+      <a>Refund: Order #123-4567890-1234567</a>
+      <span>AMZN Mktp US</span>
+    </div>
+    <div>March 6, 2024</div>
+    <div>
+      <span>MasterCard ****9876</span>
+      <span>-$11.50</span>
+      <a>Order #123-4567890-1234567</a>
+      <a>Order #D01-1234567-1234567</a>
+      <span>Amazon.com</span>
+    </div>
+  </div>
+`;
+
+const ORDER: Order = {
+  id: "123-4567890-1234567",
+  currency: "$",
+  date: "2024-03-05",
+  payments: [
+    {
+      type: "credit_card",
+      cardType: "Visa",
+      last4: "1234",
+      date: "2024-03-05",
+      amount: "$26.50",
+      amountCents: 2650,
+    },
+  ],
+  shipments: [],
+  subtotal: "$25.00",
+  subtotalCents: 2500,
+  tax: "$1.50",
+  taxCents: 150,
+  total: "$26.50",
+  totalCents: 2650,
+};
+
+function transaction(
+  date: string,
+  amountCents: number,
+  orderIDs = [ORDER.id],
+): Transaction {
+  return {
+    date,
+    cardType: "Visa",
+    last4: "1234",
+    amount: `$${(amountCents / 100).toFixed(2)}`,
+    amountCents,
+    orderIDs,
+  };
+}
+
+describe("#parseTransactionsHTML", () => {
+  it("parses charges and refunds", () => {
+    assert.deepStrictEqual(parseTransactionsHTML(TRANSACTIONS_HTML), [
+      {
+        date: "2024-03-08",
+        cardType: "Visa",
+        last4: "1234",
+        amount: "$15.00",
+        amountCents: 1500,
+        orderIDs: ["123-4567890-1234567"],
+        description: "AMZN Mktp US",
+      },
+      {
+        date: "2024-03-08",
+        cardType: "Visa",
+        last4: "1234",
+        amount: "-$5.00",
+        amountCents: -500,
+        orderIDs: ["123-4567890-1234567"],
+        description: "AMZN Mktp US",
+      },
+      {
+        date: "2024-03-06",
+        cardType: "MasterCard",
+        last4: "9876",
+        amount: "$11.50",
+        amountCents: 1150,
+        orderIDs: ["123-4567890-1234567", "D01-1234567-1234567"],
+        description: "Amazon.com",
+      },
+    ]);
+  });
+});
+
+describe("#applyTransactions", () => {
+  it("takes the date from a transaction with the same amount", () => {
+    const order = applyTransactions(ORDER, [transaction("2024-03-07", 2650)]);
+
+    assert.equal(order.payments[0].date, "2024-03-07");
+  });
+
+  it("splits a payment charged across several transactions", () => {
+    const order = applyTransactions(ORDER, [
+      transaction("2024-03-06", 1150),
+      transaction("2024-03-08", 1500),
+    ]);
+
+    assert.deepStrictEqual(
+      order.payments.map((p) => [p.date, p.amountCents]),
+      [
+        ["2024-03-06", 1150],
+        ["2024-03-08", 1500],
+      ],
+    );
+  });
+
+  it("ignores refunds and other orders' transactions", () => {
+    const order = applyTransactions(ORDER, [
+      transaction("2024-03-06", -2650),
+      transaction("2024-03-07", 2650, ["111-1111111-1111111"]),
+    ]);
+
+    assert.strictEqual(order, ORDER);
+  });
+
+  it("leaves payments that don't match alone", () => {
+    const order = applyTransactions(ORDER, [transaction("2024-03-07", 1000)]);
+
+    assert.deepStrictEqual(order.payments, ORDER.payments);
+  });
+});
@@ -0,0 +1,187 @@
+import { DateTime } from "luxon";
+import { getContentChunks } from "./invoice-parser/html.ts";
+import {
+  AMAZON_ORDER_ID_PATTERN,
+  CREDIT_CARD_NAME_PATTERN,
+  DIGITAL_ORDER_ID_PATTERN,
+  MONEY_PATTERN,
+} from "./invoice-parser/patterns.ts";
+import { Money, parseMonetaryAmount } from "./money.ts";
+import type { CreditCardPayment, Order, Payment } from "./types.ts";
+
+/**
+ * A row from Amazon's "Transactions" page (Your Payments > Transactions),
+ * which lists every charge and refund along with the orders it was for.
+ */
+export type Transaction = {
+  date: string;
+  cardType?: string;
+  last4?: string;
+
+  /**
+   * Positive for charges, negative for refunds (e.g. "-$5.00"), matching
+   * StatementLine.
+   */
+  amount: string;
+  amountCents: number;
+  orderIDs: string[];
+
+  /**
+   * Merchant name, e.g. "AMZN Mktp US".
+   */
+  description?: string;
+};
+
+const DATE_PATTERN = /^[A-Z][a-z]+ \d{1,2}, \d{4}$/;
+
+const CARD_PATTERN = new RegExp(
+  `^(?<cardType>${CREDIT_CARD_NAME_PATTERN}) \\*{4}(?<last4>\\d{4})$`,
+  "i",
+);
+
+const AMOUNT_PATTERN = new RegExp(`^[-+]${MONEY_PATTERN}$`);
+
+const ORDER_ID_PATTERN = new RegExp(
+  `(${AMAZON_ORDER_ID_PATTERN}|${DIGITAL_ORDER_ID_PATTERN})`,
+);
+
+const IGNORED_TOKENS = ["Completed", "In Progress", "Pending"];
+
+/**
+ * Parses the transactions listed on one page of the Transactions page.
+ * Transactions are grouped under date headings, and each starts with the
+ * card it was charged to.
+ */
+export function parseTransactionsHTML(html: string): Transaction[] {
+  const transactions: Transaction[] = [];
+  let date: string | undefined;
+  let current: Partial<Transaction> | undefined;
+
+  const finish = () => {
+    if (current?.date != null && current.amount != null) {
+      transactions.push(current as Transaction);
+    }
+    current = undefined;
+  };
+
+  getContentChunks(html).forEach((token) => {
+    if (DATE_PATTERN.test(token)) {
+      const parsed = DateTime.fromFormat(token, "MMMM d, yyyy");
+      if (parsed.isValid) {
+        finish();
+        date = parsed.toISODate();
+        return;
+      }
+    }
+
+    const card = CARD_PATTERN.exec(token);
+    if (card != null && date != null) {
+      finish();
+      current = {
+        date,
+        cardType: card.groups!.cardType,
+        last4: card.groups!.last4,
+        orderIDs: [],
+      };
+      return;
+    }
+
+    if (current == null) {
+      return;
+    }
+
+    if (current.amount == null && AMOUNT_PATTERN.test(token)) {
+      // The page shows charges as negative amounts and refunds as positive
+      // ones.
+      const { currency, cents } = parseMonetaryAmount(token.slice(1));
+      const signed = new Money(
+        token.startsWith("-") ? cents : -cents,
+        currency,
+      );
+      current.amount = signed.format();
+      current.amountCents = signed.cents;
+      return;
+    }
+
+    const orderID = ORDER_ID_PATTERN.exec(token)?.[1];
+    if (orderID != null) {
+      current.orderIDs!.push(orderID);
+      return;
+    }
+
+    if (current.description == null && !IGNORED_TOKENS.includes(token)) {
+      current.description = token;
+    }
+  });
+
+  finish();
+
+  return transactions;
+}
+
+/**
+ * Uses an order's transactions to fill in its credit card payments.
+ * Invoices often don't say when a card was charged, and when an order
+ * ships in several parts Amazon charges the card once per shipment, so:
+ *
+ * - A payment with the same amount as one of the transactions takes that
+ *   transaction's date.
+ * - A payment that several transactions on the same card add up to is
+ *   split into one payment per transaction.
+ *
+ * Other payments are left alone (see validateOrder()).
+ */
+export function applyTransactions(
+  order: Order,
+  transactions: Transaction[],
+): Order {
+  const unused = transactions.filter(
+    (t) => t.amountCents > 0 && t.orderIDs.includes(order.id),
+  );
+
+  if (unused.length === 0) {
+    return order;
+  }
+
+  const take = (transaction: Transaction) => {
+    unused.splice(unused.indexOf(transaction), 1);
+  };
+
+  const payments = order.payments.flatMap((payment): Payment[] => {
+    if (payment.type !== "credit_card") {
+      return [payment];
+    }
+
+    const onCard = unused.filter((t) => cardMatches(t, payment));
+
+    const exact = onCard.find((t) => t.amountCents === payment.amountCents);
+    if (exact != null) {
+      take(exact);
+      return [{ ...payment, date: exact.date }];
+    }
+
+    const total = onCard.reduce((sum, t) => sum + t.amountCents, 0);
+    if (onCard.length > 1 && total === payment.amountCents) {
+      onCard.forEach(take);
+      return onCard.map((t) => ({
+        ...payment,
+        date: t.date,
+        amount: t.amount,
+        amountCents: t.amountCents,
+      }));
+    }
+
+    return [payment];
+  });
+
+  return { ...order, payments };
+}
+
+export function cardMatches(
+  transaction: Transaction,
+  payment: CreditCardPayment,
+): boolean {
+  return transaction.last4 == null || payment.last4 == null
+    ? true
+    : transaction.last4 === payment.last4;
+}
@@ -19,6 +19,24 @@ export type OrderItem = {
   price: string;
   priceCents: number;
   quantity: number;
+
+  /**
+   * Amazon Standard Identification Number, when the invoice links to the
+   * product page.
+   */
+  asin?: string;
+  productURL?: string;
+
+  /**
+   * Seller of record, e.g. "Amazon.com Services, Inc" or a third-party
+   * seller.
+   */
+  soldBy?: string;
+
+  /**
+   * Who supplied the item, when different from the seller.
+   */
+  suppliedBy?: string;
 };
 
 type BasePayment = {
@@ -59,12 +77,99 @@ export type Shipment = {
   items: OrderItem[];
 };
 
+export type RefundStatus =
+  /** A return has been started but the money hasn't come back yet. */
+  "pending" | "refunded";
+
+export type Refund = {
+  status: RefundStatus;
+
+  /**
+   * Name of the returned item, when the refund can be tied to one.
+   */
+  itemName?: string;
+
+  /**
+   * When the refund was issued. Not set for pending refunds.
+   */
+  date?: string;
+
+  /**
+   * Positive amount refunded (or, when pending, expected to be refunded).
+   */
+  amount: string;
+  amountCents: number;
+
+  /**
+   * The payment method the refund went back to, when known.
+   */
+  paymentType?: Payment["type"];
+  cardType?: string;
+  last4?: string;
+};
+
+export type DiscountType =
+  /** "Promotion Applied" */
+  | "promotion"
+  /** "Your Coupon Savings" */
+  | "coupon"
+  /** "Subscribe & Save" */
+  | "subscribe_and_save";
+
+export type Discount = {
+  type: DiscountType;
+
+  /**
+   * The label used on the invoice, e.g. "Promotion Applied".
+   */
+  description: string;
+
+  /**
+   * Positive amount taken off the order.
+   */
+  amount: string;
+  amountCents: number;
+};
+
+export type OrderWarningCode =
+  | "item_subtotal_mismatch"
+  | "total_mismatch"
+  | "payment_total_mismatch"
+  | "shipped_before_ordered"
+  | "payment_transaction_mismatch";
+
+/**
+ * Something about an order that doesn't add up, usually because part of the
+ * invoice was misread. See validateOrder().
+ */
+export type OrderWarning = {
+  code: OrderWarningCode;
+  message: string;
+};
+
 export type Order = {
   id: string;
   currency: string;
   date?: string;
+
+  /**
+   * Set for Kindle, Prime Video, app and Audible orders. Digital orders have
+   * a single shipment with no shipping address or date.
+   */
+  digital?: boolean;
+
+  /**
+   * Promotions, coupons and other savings taken off the order total. Only
+   * present when there are any.
+   */
+  discounts?: Discount[];
   payments: Payment[];
   placedBy?: string;
+
+  /**
+   * Returns and refunds. Only present when there are any.
+   */
+  refunds?: Refund[];
   shipments: Shipment[];
   shippingCost?: string;
   shippingCostCents?: number;
@@ -74,4 +179,10 @@ export type Order = {
   taxCents: number;
   total: string;
   totalCents: number;
+
+  /**
+   * Problems found when the order was validated. Only present when there
+   * are any.
+   */
+  warnings?: OrderWarning[];
 };
@@ -0,0 +1,45 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { parseDateInput, parseDateOption } from "./utils.ts";
+
+describe("#parseDateInput", () => {
+  const reference = new Date(2024, 2, 15);
+
+  it("parses YYYY-MM-DD dates", () => {
+    assert.deepStrictEqual(
+      parseDateInput("2024-01-02", reference),
+      new Date(2024, 0, 2),
+    );
+  });
+
+  it("parses durations relative to the reference date", () => {
+    assert.deepStrictEqual(
+      parseDateInput("-2 days", reference),
+      new Date(2024, 2, 13),
+    );
+  });
+
+  it("returns undefined for input it doesn't understand", () => {
+    assert.equal(parseDateInput("last tuesday", reference), undefined);
+  });
+});
+
+describe("#parseDateOption", () => {
+  const now = new Date(2024, 2, 15, 12);
+
+  it("parses YYYY-MM-DD dates", () => {
+    assert.equal(parseDateOption("from", "2024-01-02", now), "2024-01-02");
+  });
+
+  it("counts durations back from now", () => {
+    assert.equal(parseDateOption("from", "1 week", now), "2024-03-08");
+    assert.equal(parseDateOption("from", "-1 week", now), "2024-03-08");
+  });
+
+  it("throws for input it doesn't understand", () => {
+    assert.throws(
+      () => parseDateOption("from", "last tuesday", now),
+      /Invalid --from: last tuesday/,
+    );
+  });
+});
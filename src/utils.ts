@@ -29,7 +29,7 @@ const DURATION_REGEX = new RegExp(
   "i",
 );
 
-const DATE_FORMATS = ["YYYY-MM-DD"];
+const DATE_FORMATS = ["yyyy-MM-dd"];
 
 export function parseDateInput(
   input: string,
@@ -48,6 +48,29 @@ export function parseDateInput(
   }
 }
 
+/**
+ * Parses the value of a date option like --from or --to. Durations count back
+ * from `now`, so "1 week" and "-1 week" both mean a week ago.
+ * @returns The date in YYYY-MM-DD format.
+ */
+export function parseDateOption(
+  name: string,
+  value: string,
+  now = new Date(),
+): string {
+  const duration = parseDuration(value);
+  const date =
+    duration == null
+      ? parseDateInput(value, now)
+      : new Date(now.getTime() - Math.abs(duration));
+
+  if (date == null) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+
+  return DateTime.fromJSDate(date).toISODate();
+}
+
 export function parseDuration(input: string): number | undefined {
   const m = DURATION_REGEX.exec(input);
   if (!m) {
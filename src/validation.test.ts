@@ -0,0 +1,131 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import type { Order } from "./types.ts";
+import { validateOrder } from "./validation.ts";
+
+const ORDER: Order = {
+  id: "123-4567890-1234567",
+  currency: "$",
+  date: "2024-03-05",
+  discounts: [
+    {
+      type: "coupon",
+      description: "Your Coupon Savings",
+      amount: "$1.00",
+      amountCents: 100,
+    },
+  ],
+  payments: [
+    {
+      type: "credit_card",
+      cardType: "Visa",
+      last4: "1234",
+      date: "2024-03-06",
+      amount: "$25.50",
+      amountCents: 2550,
+    },
+  ],
+  shipments: [
+    {
+      date: "2024-03-06",
+      items: [
+        { name: "HDMI cable", price: "$10.00", priceCents: 1000, quantity: 2 },
+        { name: "USB charger", price: "$5.00", priceCents: 500, quantity: 1 },
+      ],
+    },
+  ],
+  shippingCost: "$0.00",
+  shippingCostCents: 0,
+  subtotal: "$25.00",
+  subtotalCents: 2500,
+  tax: "$1.50",
+  taxCents: 150,
+  total: "$25.50",
+  totalCents: 2550,
+};
+
+describe("#validateOrder", () => {
+  it("returns no warnings for a consistent order", () => {
+    assert.deepStrictEqual(validateOrder(ORDER), []);
+  });
+
+  it("warns when items don't add up to the subtotal", () => {
+    const order: Order = {
+      ...ORDER,
+      shipments: [
+        {
+          items: [
+            {
+              name: "HDMI cable",
+              price: "$10.00",
+              priceCents: 1000,
+              quantity: 1,
+            },
+          ],
+        },
+      ],
+    };
+
+    assert.deepStrictEqual(
+      validateOrder(order).map((w) => w.code),
+      ["item_subtotal_mismatch"],
+    );
+  });
+
+  it("warns when the total doesn't add up", () => {
+    const order: Order = { ...ORDER, taxCents: 200, tax: "$2.00" };
+
+    assert.deepStrictEqual(validateOrder(order), [
+      {
+        code: "total_mismatch",
+        message:
+          "Subtotal + shipping + tax - discounts is $26.00, but the total is $25.50",
+      },
+    ]);
+  });
+
+  it("warns when payments don't add up to the total", () => {
+    const order: Order = {
+      ...ORDER,
+      payments: [{ ...ORDER.payments[0], amount: "$20.00", amountCents: 2000 }],
+    };
+
+    assert.deepStrictEqual(
+      validateOrder(order).map((w) => w.code),
+      ["payment_total_mismatch"],
+    );
+  });
+
+  it("warns about card payments that don't match a transaction", () => {
+    const transactions = [
+      {
+        date: "2024-03-07",
+        amount: "$25.50",
+        amountCents: 2550,
+        last4: "1234",
+        orderIDs: [ORDER.id],
+      },
+    ];
+
+    assert.deepStrictEqual(
+      validateOrder(ORDER, transactions).map((w) => w.code),
+      ["payment_transaction_mismatch"],
+    );
+    assert.deepStrictEqual(
+      validateOrder(ORDER, [{ ...transactions[0], date: "2024-03-06" }]),
+      [],
+    );
+  });
+
+  it("warns about shipments dated before the order", () => {
+    const order: Order = {
+      ...ORDER,
+      shipments: [{ ...ORDER.shipments[0], date: "2024-03-01" }],
+    };
+
+    assert.deepStrictEqual(
+      validateOrder(order).map((w) => w.code),
+      ["shipped_before_ordered"],
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { Money } from "./money.ts";
+import { cardMatches, type Transaction } from "./transactions.ts";
+import type { Order, OrderWarning } from "./types.ts";
+
+/**
+ * Checks that the different parts of an order agree with each other. An
+ * order that fails these checks was probably parsed incorrectly, but it's
+ * still worth keeping, so problems are reported as warnings rather than
+ * errors.
+ *
+ * When `transactions` (from the Transactions page) are given, each credit
+ * card payment must also match one of the order's transactions.
+ */
+export function validateOrder(
+  order: Order,
+  transactions: Transaction[] = [],
+): OrderWarning[] {
+  const warnings: OrderWarning[] = [];
+  const money = (cents: number) => new Money(cents, order.currency);
+
+  const itemTotal = Money.sum(
+    order.shipments.flatMap((shipment) =>
+      shipment.items.map((item) =>
+        money(item.priceCents).multiply(item.quantity),
+      ),
+    ),
+    order.currency,
+  );
+  const subtotal = money(order.subtotalCents);
+
+  if (!itemTotal.equals(subtotal)) {
+    warnings.push({
+      code: "item_subtotal_mismatch",
+      message: `Items add up to ${itemTotal.format()}, but the subtotal is ${subtotal.format()}`,
+    });
+  }
+
+  const discounts = Money.sum(
+    (order.discounts ?? []).map((discount) => money(discount.amountCents)),
+    order.currency,
+  );
+  const expectedTotal = subtotal
+    .add(money(order.shippingCostCents ?? 0))
+    .add(money(order.taxCents))
+    .subtract(discounts);
+  const total = money(order.totalCents);
+
+  if (!expectedTotal.equals(total)) {
+    warnings.push({
+      code: "total_mismatch",
+      message: `Subtotal + shipping + tax - discounts is ${expectedTotal.format()}, but the total is ${total.format()}`,
+    });
+  }
+
+  const paid = Money.sum(
+    order.payments.map((payment) => money(payment.amountCents)),
+    order.currency,
+  );
+
+  if (!paid.equals(total)) {
+    warnings.push({
+      code: "payment_total_mismatch",
+      message: `Payments add up to ${paid.format()}, but the total is ${total.format()}`,
+    });
+  }
+
+  order.shipments.forEach((shipment) => {
+    if (
+      order.date != null &&
+      shipment.date != null &&
+      shipment.date < order.date
+    ) {
+      warnings.push({
+        code: "shipped_before_ordered",
+        message: `Shipment date ${shipment.date} is before the order date ${order.date}`,
+      });
+    }
+  });
+
+  const charges = transactions.filter(
+    (t) => t.amountCents > 0 && t.orderIDs.includes(order.id),
+  );
+
+  if (charges.length > 0) {
+    order.payments.forEach((payment) => {
+      if (payment.type !== "credit_card") {
+        return;
+      }
+
+      const matched = charges.some(
+        (t) =>
+          cardMatches(t, payment) &&
+          t.amountCents === payment.amountCents &&
+          t.date === payment.date,
+      );
+
+      if (!matched) {
+        warnings.push({
+          code: "payment_transaction_mismatch",
+          message: `${payment.cardType} ${payment.last4} payment of ${payment.amount} on ${payment.date} doesn't match any transaction for this order`,
+        });
+      }
+    });
+  }
+
+  return warnings;
+}